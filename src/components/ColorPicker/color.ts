@@ -0,0 +1,254 @@
+/* ── Color math shared by ColorPicker and the pickers built on it ── */
+
+export type HSVA = { h: number; s: number; v: number; a: number }
+export type RGBA = { r: number; g: number; b: number; a: number }
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch'
+
+export const cl = (n: number, a: number, b: number) => Math.min(b, Math.max(a, n))
+
+const round = (n: number, digits = 0) => {
+    const f = 10 ** digits
+    return Math.round(n * f) / f
+}
+
+export const hexToRgba = (hex: string) => {
+    const m = /^#?([0-9a-f]{6})([0-9a-f]{2})?$/i.exec((hex || '').trim())
+    if (!m) return { r: 255, g: 255, b: 255, a: 1 }
+    const i = parseInt(m[1], 16)
+    return { r: (i >> 16) & 255, g: (i >> 8) & 255, b: i & 255, a: m[2] ? parseInt(m[2], 16) / 255 : 1 }
+}
+
+export const rgbaToHex = (r: number, g: number, b: number, a = 1, withA = true) => {
+    const h = (v: number) => v.toString(16).padStart(2, '0').toUpperCase()
+    return `#${h(r)}${h(g)}${h(b)}${withA ? h(Math.round(cl(a, 0, 1) * 255)) : ''}`
+}
+
+export const rgb2hsv = (r: number, g: number, b: number) => {
+    r /= 255; g /= 255; b /= 255
+    const mx = Math.max(r, g, b), mn = Math.min(r, g, b), d = mx - mn
+    let h = 0
+    if (d) {
+        if (mx === r) h = ((g - b) / d) % 6
+        else if (mx === g) h = (b - r) / d + 2
+        else h = (r - g) / d + 4
+        h *= 60; if (h < 0) h += 360
+    }
+    return { h, s: mx === 0 ? 0 : d / mx, v: mx }
+}
+
+export const hsv2rgb = (h: number, s: number, v: number) => {
+    const c = v * s, x = c * (1 - Math.abs(((h / 60) % 2) - 1)), m = v - c
+    let r = 0, g = 0, b = 0
+    if (h < 60) { r = c; g = x }
+    else if (h < 120) { r = x; g = c }
+    else if (h < 180) { g = c; b = x }
+    else if (h < 240) { g = x; b = c }
+    else if (h < 300) { r = x; b = c }
+    else { r = c; b = x }
+    return { r: Math.round((r + m) * 255), g: Math.round((g + m) * 255), b: Math.round((b + m) * 255) }
+}
+
+export const hsva2hex = (hs: HSVA, withA = true) => {
+    const { r, g, b } = hsv2rgb(hs.h, hs.s, hs.v)
+    return rgbaToHex(r, g, b, hs.a, withA)
+}
+
+export const rgbaToHsva = ({ r, g, b, a }: RGBA): HSVA => ({ ...rgb2hsv(r, g, b), a })
+
+export const hsvaToRgba = (hs: HSVA): RGBA => ({ ...hsv2rgb(hs.h, hs.s, hs.v), a: hs.a })
+
+export const normHex = (hex: string) => (hex || '').trim().toUpperCase().replace(/^(?!#)/, '#')
+
+/* ── HSL ── */
+
+export const rgb2hsl = (r: number, g: number, b: number) => {
+    const { h } = rgb2hsv(r, g, b)
+    r /= 255; g /= 255; b /= 255
+    const mx = Math.max(r, g, b), mn = Math.min(r, g, b), d = mx - mn
+    const l = (mx + mn) / 2
+    const s = d === 0 ? 0 : d / (1 - Math.abs(2 * l - 1))
+    return { h, s, l }
+}
+
+export const hsl2rgb = (h: number, s: number, l: number) => {
+    const v = l + s * Math.min(l, 1 - l)
+    return hsv2rgb(((h % 360) + 360) % 360, v === 0 ? 0 : 2 * (1 - l / v), v)
+}
+
+/* ── OKLCH (via OKLab, sRGB D65) ── */
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4)
+const fromLinear = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055)
+
+export const rgb2oklch = (r: number, g: number, b: number) => {
+    const lr = toLinear(r / 255), lg = toLinear(g / 255), lb = toLinear(b / 255)
+    const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+    const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+    const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+    const L = 0.2104542553 * l_ + 0.793617785 * m_ - 0.0040720468 * s_
+    const A = 1.9779984951 * l_ - 2.428592205 * m_ + 0.4505937099 * s_
+    const B = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.808675766 * s_
+    const c = Math.sqrt(A * A + B * B)
+    let h = (Math.atan2(B, A) * 180) / Math.PI
+    if (h < 0) h += 360
+    return { l: L, c, h: c < 0.0001 ? 0 : h }
+}
+
+/** Out-of-gamut colors are clipped to sRGB */
+export const oklch2rgb = (l: number, c: number, h: number) => {
+    const hr = (h * Math.PI) / 180
+    const A = c * Math.cos(hr), B = c * Math.sin(hr)
+    const l_ = (l + 0.3963377774 * A + 0.2158037573 * B) ** 3
+    const m_ = (l - 0.1055613458 * A - 0.0638541728 * B) ** 3
+    const s_ = (l - 0.0894841775 * A - 1.291485548 * B) ** 3
+    const lr = 4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_
+    const lg = -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_
+    const lb = -0.0041960863 * l_ - 0.7034186147 * m_ + 1.707614701 * s_
+    const to8 = (v: number) => Math.round(cl(fromLinear(cl(v, 0, 1)), 0, 1) * 255)
+    return { r: to8(lr), g: to8(lg), b: to8(lb) }
+}
+
+/* ── CSS strings ── */
+
+/* number with optional unit; percentages are scaled by `pctOf` */
+const num = (token: string | undefined, pctOf = 1) => {
+    if (token === undefined) return NaN
+    const t = token.trim().toLowerCase()
+    if (t === 'none') return 0
+    if (t.endsWith('%')) return (parseFloat(t) / 100) * pctOf
+    if (t.endsWith('turn')) return parseFloat(t) * 360
+    if (t.endsWith('rad')) return (parseFloat(t) * 180) / Math.PI
+    if (t.endsWith('grad')) return parseFloat(t) * 0.9
+    return parseFloat(t)
+}
+
+/* 0…1 from "50%" or the unitless 0…100 form */
+const fraction = (token: string) => (token.trim().endsWith('%') ? num(token, 1) : num(token) / 100)
+
+/* splits "255, 0, 0, .5" and "255 0 0 / 50%" into channels + alpha */
+const splitArgs = (args: string) => {
+    const [main, slashAlpha] = args.split('/')
+    const parts = main.split(/[\s,]+/).filter(Boolean)
+    const alpha = slashAlpha !== undefined ? slashAlpha.trim() : parts[3]
+    return { parts: parts.slice(0, 3), alpha: alpha === undefined ? 1 : cl(num(alpha, 1), 0, 1) }
+}
+
+const parseFunctional = (input: string): RGBA | null => {
+    const m = /^(rgba?|hsla?|oklch)\(\s*([^)]*)\)$/i.exec(input)
+    if (!m) return null
+    const fn = m[1].toLowerCase()
+    const { parts, alpha } = splitArgs(m[2])
+    if (parts.length < 3 || !Number.isFinite(alpha)) return null
+
+    let rgb: { r: number; g: number; b: number }
+    if (fn.startsWith('rgb')) {
+        const [r, g, b] = parts.map(p => Math.round(cl(num(p, 255), 0, 255)))
+        rgb = { r, g, b }
+    } else if (fn.startsWith('hsl')) {
+        rgb = hsl2rgb(num(parts[0]), cl(fraction(parts[1]), 0, 1), cl(fraction(parts[2]), 0, 1))
+    } else {
+        rgb = oklch2rgb(cl(num(parts[0], 1), 0, 1), Math.max(0, num(parts[1], 0.4)), num(parts[2]))
+    }
+    if (![rgb.r, rgb.g, rgb.b].every(Number.isFinite)) return null
+    return { ...rgb, a: alpha }
+}
+
+const parseHex = (input: string): RGBA | null => {
+    const m = /^#?([0-9a-f]{3,8})$/i.exec(input)
+    if (!m || m[1].length === 5 || m[1].length === 7) return null
+    let full = m[1]
+    if (full.length <= 4) full = full.split('').map(c => c + c).join('')
+    return hexToRgba('#' + full)
+}
+
+/* named colors and anything else the browser understands are resolved through a canvas */
+let probe: CanvasRenderingContext2D | null | undefined
+const parseWithBrowser = (input: string): RGBA | null => {
+    if (typeof document === 'undefined') return null
+    if (probe === undefined) probe = document.createElement('canvas').getContext('2d')
+    if (!probe) return null
+    probe.fillStyle = '#000000'
+    probe.fillStyle = input
+    const first = String(probe.fillStyle)
+    probe.fillStyle = '#ffffff'
+    probe.fillStyle = input
+    /* an invalid color leaves the previous fillStyle untouched */
+    if (first !== String(probe.fillStyle)) return null
+    return parseHex(first) ?? parseFunctional(first)
+}
+
+/** Parses any CSS color — hex, rgb(), hsl(), oklch(), named colors — or returns null */
+export const parseColor = (input: string): RGBA | null => {
+    const s = (input || '').trim()
+    if (!s) return null
+    if (s.toLowerCase() === 'transparent') return { r: 0, g: 0, b: 0, a: 0 }
+    return parseHex(s) ?? parseFunctional(s) ?? parseWithBrowser(s)
+}
+
+/** Serializes a color; alpha is only written when `withAlpha` (hex always carries it then, like before) */
+export const formatColor = ({ r, g, b, a }: RGBA, format: ColorFormat, withAlpha = true) => {
+    const alpha = withAlpha && a < 1
+    switch (format) {
+        case 'rgb':
+            return alpha ? `rgba(${r}, ${g}, ${b}, ${round(a, 3)})` : `rgb(${r}, ${g}, ${b})`
+        case 'hsl': {
+            const { h, s, l } = rgb2hsl(r, g, b)
+            const body = `${round(h)}, ${round(s * 100)}%, ${round(l * 100)}%`
+            return alpha ? `hsla(${body}, ${round(a, 3)})` : `hsl(${body})`
+        }
+        case 'oklch': {
+            const { l, c, h } = rgb2oklch(r, g, b)
+            const body = `${round(l * 100, 2)}% ${round(c, 4)} ${round(h, 2)}`
+            return alpha ? `oklch(${body} / ${round(a, 3)})` : `oklch(${body})`
+        }
+        default:
+            return rgbaToHex(r, g, b, a, withAlpha)
+    }
+}
+
+/* ── WCAG contrast ── */
+
+/* translucent colors are judged as they appear over the background */
+const over = (fg: RGBA, bg: RGBA): RGBA => ({
+    r: Math.round(fg.r * fg.a + bg.r * (1 - fg.a)),
+    g: Math.round(fg.g * fg.a + bg.g * (1 - fg.a)),
+    b: Math.round(fg.b * fg.a + bg.b * (1 - fg.a)),
+    a: 1,
+})
+
+export const relativeLuminance = ({ r, g, b }: { r: number; g: number; b: number }) =>
+    0.2126 * toLinear(r / 255) + 0.7152 * toLinear(g / 255) + 0.0722 * toLinear(b / 255)
+
+/** WCAG 2 contrast ratio, 1…21 */
+export const contrastRatio = (fg: RGBA, bg: RGBA) => {
+    const a = relativeLuminance(over(fg, bg)), b = relativeLuminance(bg)
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05)
+}
+
+/**
+ * Closest color with at least `target` contrast that differs only in HSL lightness,
+ * or null when neither lighter nor darker variants reach it.
+ */
+export const nearestAccessible = (fg: RGBA, bg: RGBA, target: number): RGBA | null => {
+    if (contrastRatio(fg, bg) >= target) return fg
+    const { h, s, l } = rgb2hsl(fg.r, fg.g, fg.b)
+    const at = (light: number): RGBA => ({ ...hsl2rgb(h, s, light), a: fg.a })
+
+    /* luminance grows with lightness, so each direction is a binary search from the current lightness */
+    const search = (end: number) => {
+        if (contrastRatio(at(end), bg) < target) return null
+        let near = l, far = end
+        for (let i = 0; i < 24; i++) {
+            const mid = (near + far) / 2
+            if (contrastRatio(at(mid), bg) >= target) far = mid
+            else near = mid
+        }
+        return far
+    }
+
+    const candidates = [search(0), search(1)].filter((v): v is number => v !== null)
+    if (!candidates.length) return null
+    const best = candidates.reduce((a, b) => (Math.abs(b - l) < Math.abs(a - l) ? b : a))
+    return at(best)
+}
@@ -0,0 +1,55 @@
+import { parseColor, type RGBA } from './color'
+
+export type EyedropperSource = HTMLImageElement | HTMLCanvasElement
+
+/* The EyeDropper API is Chromium-only and not in the DOM typings yet */
+type EyeDropperCtor = new () => { open: (options?: { signal?: AbortSignal }) => Promise<{ sRGBHex: string }> }
+
+const eyeDropperCtor = () =>
+    typeof window === 'undefined' ? undefined : (window as unknown as { EyeDropper?: EyeDropperCtor }).EyeDropper
+
+export const hasEyeDropper = () => eyeDropperCtor() !== undefined
+
+/** Opens the native screen eyedropper; resolves null when the user cancels */
+export async function pickFromScreen(signal?: AbortSignal): Promise<RGBA | null> {
+    const Ctor = eyeDropperCtor()
+    if (!Ctor) return null
+    try {
+        const { sRGBHex } = await new Ctor().open({ signal })
+        return parseColor(sRGBHex)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Reads the pixel under a click on an image or canvas, mapping the CSS box to
+ * the bitmap size. Returns null for cross-origin images that taint the canvas.
+ */
+export function sampleElement(el: EyedropperSource, clientX: number, clientY: number): RGBA | null {
+    const rect = el.getBoundingClientRect()
+    if (!rect.width || !rect.height) return null
+    const width = el instanceof HTMLImageElement ? el.naturalWidth : el.width
+    const height = el instanceof HTMLImageElement ? el.naturalHeight : el.height
+    if (!width || !height) return null
+    const x = Math.min(width - 1, Math.max(0, Math.floor(((clientX - rect.left) / rect.width) * width)))
+    const y = Math.min(height - 1, Math.max(0, Math.floor(((clientY - rect.top) / rect.height) * height)))
+
+    try {
+        let ctx = el instanceof HTMLCanvasElement ? el.getContext('2d', { willReadFrequently: true }) : null
+        if (!ctx) {
+            const canvas = document.createElement('canvas')
+            canvas.width = 1
+            canvas.height = 1
+            ctx = canvas.getContext('2d')
+            if (!ctx) return null
+            ctx.drawImage(el, x, y, 1, 1, 0, 0, 1, 1)
+            const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data
+            return { r, g, b, a: a / 255 }
+        }
+        const [r, g, b, a] = ctx.getImageData(x, y, 1, 1).data
+        return { r, g, b, a: a / 255 }
+    } catch {
+        return null
+    }
+}
@@ -2,19 +2,45 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import clsx from 'clsx'
 import { Tooltip } from '../Tooltip'
+import {
+    cl,
+    contrastRatio,
+    formatColor,
+    hsl2rgb,
+    hsv2rgb,
+    hsva2hex,
+    hsvaToRgba,
+    nearestAccessible,
+    oklch2rgb,
+    parseColor,
+    rgb2hsl,
+    rgb2oklch,
+    rgbaToHex,
+    rgbaToHsva,
+    type ColorFormat,
+    type HSVA,
+    type RGBA,
+} from './color'
+import { hasEyeDropper, pickFromScreen, sampleElement, type EyedropperSource } from './eyedropper'
+import { localRecentColors, type RecentColorsStorage } from './recentColors'
 import styles from './colorPicker.module.scss'
 
-/* ── Types ── */
+export type { ColorFormat } from './color'
+export type { RecentColorsStorage } from './recentColors'
+export type { EyedropperSource } from './eyedropper'
+export { localRecentColors, memoryRecentColors } from './recentColors'
 
-type HSVA = { h: number; s: number; v: number; a: number }
+/* ── Types ── */
 
 export interface ColorPickerProps {
-    /** Current hex color (e.g. "#FF00CC" or "#FF00CCFF" with alpha) */
+    /** Current color — hex (e.g. "#FF00CC" or "#FF00CCFF" with alpha) or any CSS color string */
     value: string
-    /** Called with new hex value */
-    onChange?: (hex: string) => void
+    /** Called with the new color, serialized in `outputFormat` */
+    onChange?: (color: string) => void
     /** Default value — shows reset link when value differs */
     defaultValue?: string
+    /** Format of the string passed to `onChange` */
+    outputFormat?: ColorFormat
     /** Label */
     label?: string
     /** Description tooltip */
@@ -25,57 +51,167 @@ export interface ColorPickerProps {
     disabled?: boolean
     /** Custom reset text */
     resetText?: string
+    /** Preset palette — any CSS color, including tokens like "var(--ps-accent)" */
+    swatches?: string[]
+    /** How many recently picked colors to keep; 0 hides the row */
+    recentCount?: number
+    /** Where recent colors are kept (localStorage by default) */
+    recentStorage?: RecentColorsStorage
+    /** Heading of the preset palette */
+    swatchesText?: string
+    /** Heading of the recent colors row */
+    recentText?: string
+    /** Image or canvas to sample from when the browser has no EyeDropper API */
+    eyedropperSource?: EyedropperSource | React.RefObject<EyedropperSource | null> | null
+    /** Tooltip / aria-label of the eyedropper button */
+    eyedropperText?: string
+    /** Background to check WCAG contrast against — any CSS color or token */
+    contrastAgainst?: string
+    /** Show the contrast checker — on by default when `contrastAgainst` is set; without it the `--ps-background` token is used */
+    showContrast?: boolean
+    /** Label of the contrast ratio */
+    contrastText?: string
+    /** Text of the nearest accessible color suggestion */
+    suggestText?: string
     /** Additional className */
     className?: string
 }
 
-/* ── Color math ── */
+const defaultRecentStorage = localRecentColors()
 
-const cl = (n: number, a: number, b: number) => Math.min(b, Math.max(a, n))
-
-const hexToRgba = (hex: string) => {
-    const m = /^#?([0-9a-f]{6})([0-9a-f]{2})?$/i.exec((hex || '').trim())
-    if (!m) return { r: 255, g: 255, b: 255, a: 1 }
-    const i = parseInt(m[1], 16)
-    return { r: (i >> 16) & 255, g: (i >> 8) & 255, b: i & 255, a: m[2] ? parseInt(m[2], 16) / 255 : 1 }
+/* Resolves "var(--token)" against the picker's computed styles so themed tokens pick up their current value */
+const resolveColor = (color: string, el: Element | null): RGBA | null => {
+    const m = /^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/.exec(color.trim())
+    if (!m) return parseColor(color)
+    const token = el ? getComputedStyle(el).getPropertyValue(m[1]).trim() : ''
+    if (token) return resolveColor(token, el)
+    return m[2] ? resolveColor(m[2], el) : null
 }
 
-const rgbaToHex = (r: number, g: number, b: number, a = 1, withA = true) => {
-    const h = (v: number) => v.toString(16).padStart(2, '0').toUpperCase()
-    return `#${h(r)}${h(g)}${h(b)}${withA ? h(Math.round(cl(a, 0, 1) * 255)) : ''}`
+type SwatchItem = { key: string; color: string; rgba: RGBA | null }
+
+type SwatchListProps = {
+    title: string
+    items: SwatchItem[]
+    selected: string
+    withAlpha: boolean
+    onPick: (rgba: RGBA) => void
 }
 
-const rgb2hsv = (r: number, g: number, b: number) => {
-    r /= 255; g /= 255; b /= 255
-    const mx = Math.max(r, g, b), mn = Math.min(r, g, b), d = mx - mn
-    let h = 0
-    if (d) {
-        if (mx === r) h = ((g - b) / d) % 6
-        else if (mx === g) h = (b - r) / d + 2
-        else h = (r - g) / d + 4
-        h *= 60; if (h < 0) h += 360
+const SWATCH_COLUMNS = 8
+
+/* Listbox of swatches with a roving tab stop: arrows/Home/End move focus, Enter/Space picks */
+function SwatchList({ title, items, selected, withAlpha, onPick }: SwatchListProps) {
+    const listRef = useRef<HTMLDivElement>(null)
+    const [focusIndex, setFocusIndex] = useState<number | null>(null)
+
+    const hexOf = (c: RGBA) => rgbaToHex(c.r, c.g, c.b, c.a, withAlpha)
+    const selectedIndex = items.findIndex(it => it.rgba && hexOf(it.rgba) === selected)
+    const tabIndex = focusIndex ?? (selectedIndex >= 0 ? selectedIndex : 0)
+
+    const moveTo = (i: number) => {
+        const next = cl(i, 0, items.length - 1)
+        setFocusIndex(next)
+        listRef.current?.querySelector<HTMLElement>(`[data-index="${next}"]`)?.focus()
     }
-    return { h, s: mx === 0 ? 0 : d / mx, v: mx }
-}
 
-const hsv2rgb = (h: number, s: number, v: number) => {
-    const c = v * s, x = c * (1 - Math.abs(((h / 60) % 2) - 1)), m = v - c
-    let r = 0, g = 0, b = 0
-    if (h < 60) { r = c; g = x }
-    else if (h < 120) { r = x; g = c }
-    else if (h < 180) { g = c; b = x }
-    else if (h < 240) { g = x; b = c }
-    else if (h < 300) { r = x; b = c }
-    else { r = c; b = x }
-    return { r: Math.round((r + m) * 255), g: Math.round((g + m) * 255), b: Math.round((b + m) * 255) }
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const moves: Record<string, number> = {
+            ArrowRight: tabIndex + 1,
+            ArrowLeft: tabIndex - 1,
+            ArrowDown: tabIndex + SWATCH_COLUMNS,
+            ArrowUp: tabIndex - SWATCH_COLUMNS,
+            Home: 0,
+            End: items.length - 1,
+        }
+        if (!(e.key in moves)) return
+        e.preventDefault()
+        moveTo(moves[e.key])
+    }
+
+    return (
+        <div className={styles.swatchSection}>
+            <span className={styles.swatchTitle}>{title}</span>
+            <div ref={listRef} className={styles.swatchList} role="listbox" aria-label={title} onKeyDown={handleKeyDown}>
+                {items.map((it, i) => (
+                    <button
+                        key={it.key}
+                        type="button"
+                        role="option"
+                        data-index={i}
+                        aria-selected={i === selectedIndex}
+                        aria-label={it.color}
+                        title={it.color}
+                        tabIndex={i === tabIndex ? 0 : -1}
+                        disabled={!it.rgba}
+                        className={clsx(styles.swatchItem, i === selectedIndex && styles.swatchItemActive)}
+                        onFocus={() => setFocusIndex(i)}
+                        onClick={() => it.rgba && onPick(it.rgba)}
+                    >
+                        <span
+                            className={styles.swatchFill}
+                            style={{ background: it.rgba ? `rgba(${it.rgba.r},${it.rgba.g},${it.rgba.b},${it.rgba.a})` : it.color }}
+                        />
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
 }
 
-const hsva2hex = (hs: HSVA, withA = true) => {
-    const { r, g, b } = hsv2rgb(hs.h, hs.s, hs.v)
-    return rgbaToHex(r, g, b, hs.a, withA)
+const FORMATS: { id: ColorFormat; label: string }[] = [
+    { id: 'hex', label: 'HEX' },
+    { id: 'rgb', label: 'RGB' },
+    { id: 'hsl', label: 'HSL' },
+    { id: 'oklch', label: 'OKLCH' },
+]
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 }
+
+type ChannelFieldProps = {
+    label: string
+    value: number
+    min: number
+    max: number
+    step: number
+    digits?: number
+    onCommit: (value: number) => void
 }
 
-const normHex = (hex: string) => (hex || '').trim().toUpperCase().replace(/^(?!#)/, '#')
+/* Number field that applies on blur/Enter so partial input like "0." is not clobbered */
+function ChannelField({ label, value, min, max, step, digits = 0, onCommit }: ChannelFieldProps) {
+    const [draft, setDraft] = useState<string | null>(null)
+    const shown = String(Math.round(value * 10 ** digits) / 10 ** digits)
+
+    const apply = () => {
+        if (draft === null) return
+        const n = Number(draft.replace(',', '.'))
+        if (Number.isFinite(n)) onCommit(cl(n, min, max))
+        setDraft(null)
+    }
+
+    return (
+        <label className={styles.channel}>
+            <input
+                className={styles.channelInput}
+                inputMode="decimal"
+                value={draft ?? shown}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={apply}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') e.currentTarget.blur()
+                    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                        e.preventDefault()
+                        const delta = step * (e.shiftKey ? 10 : 1) * (e.key === 'ArrowUp' ? 1 : -1)
+                        setDraft(null)
+                        onCommit(cl(value + delta, min, max))
+                    }
+                }}
+            />
+            <span className={styles.channelLabel}>{label}</span>
+        </label>
+    )
+}
 
 /* ── Component ── */
 
@@ -83,11 +219,23 @@ export function ColorPicker({
     value,
     onChange,
     defaultValue,
+    outputFormat = 'hex',
     label,
     description,
     withAlpha = true,
     disabled = false,
     resetText = 'Reset',
+    swatches = [],
+    recentCount = 8,
+    recentStorage = defaultRecentStorage,
+    swatchesText = 'Swatches',
+    recentText = 'Recent',
+    eyedropperSource,
+    eyedropperText = 'Pick color',
+    contrastAgainst,
+    showContrast = contrastAgainst !== undefined,
+    contrastText = 'Contrast',
+    suggestText = 'Nearest accessible',
     className,
 }: ColorPickerProps) {
     const [open, setOpen] = useState(false)
@@ -101,24 +249,34 @@ export function ColorPicker({
 
     useEffect(() => setMounted(true), [])
 
-    const [hsva, setHsva] = useState<HSVA>(() => {
-        const { r, g, b, a } = hexToRgba(value)
-        const { h, s, v } = rgb2hsv(r, g, b)
-        return { h, s, v, a }
-    })
-    const [hexText, setHexText] = useState(value || '#FFFFFF')
-
-    const canReset = defaultValue !== undefined && normHex(value) !== normHex(defaultValue)
+    const [format, setFormat] = useState<ColorFormat>(outputFormat)
+    const [recent, setRecent] = useState<string[]>([])
+    const [resolvedSwatches, setResolvedSwatches] = useState<(RGBA | null)[]>([])
+    const openedWith = useRef<string | null>(null)
+    const [sampling, setSampling] = useState(false)
+    const [contrastBg, setContrastBg] = useState<RGBA | null>(null)
+    const samplingRef = useRef(false)
+    const [hsva, setHsva] = useState<HSVA>(() => rgbaToHsva(parseColor(value) ?? WHITE))
+    const [colorText, setColorText] = useState(() => formatColor(parseColor(value) ?? WHITE, outputFormat, withAlpha))
+
+    const sameColor = (a: string, b: string) => {
+        const ca = parseColor(a), cb = parseColor(b)
+        if (!ca || !cb) return a.trim().toUpperCase() === b.trim().toUpperCase()
+        return rgbaToHex(ca.r, ca.g, ca.b, ca.a) === rgbaToHex(cb.r, cb.g, cb.b, cb.a)
+    }
+    const canReset = defaultValue !== undefined && !sameColor(value, defaultValue)
 
-    /* sync external value */
+    /*
+     * sync external value; a value that is exactly how the shown color prints (our own echo,
+     * rounded in rgb/hsl) is skipped so rounding does not reset hue/saturation mid-drag
+     */
     useEffect(() => {
-        const norm = (value || '#FFFFFF').trim().toUpperCase()
-        const cur = hsva2hex(hsva, withAlpha).toUpperCase()
-        if (norm !== cur) {
-            const { r, g, b, a } = hexToRgba(value)
-            const { h, s, v } = rgb2hsv(r, g, b)
-            setHsva({ h, s, v, a })
-            setHexText(norm)
+        if (value === formatColor(hsvaToRgba(hsva), outputFormat, withAlpha)) return
+        const parsed = parseColor(value || '#FFFFFF') ?? WHITE
+        const next = rgbaToHex(parsed.r, parsed.g, parsed.b, parsed.a, withAlpha)
+        if (next !== hsva2hex(hsva, withAlpha)) {
+            setHsva(rgbaToHsva(parsed))
+            setColorText(formatColor(parsed, format, withAlpha))
         }
     }, [value, withAlpha])
 
@@ -150,18 +308,49 @@ export function ColorPicker({
         const h = (e: MouseEvent) => {
             const target = e.target as Node
             if (wrapRef.current?.contains(target) || panelRef.current?.contains(target)) return
+            /* clicks on the sampled image belong to the eyedropper */
+            if (samplingRef.current) return
             setOpen(false)
         }
         document.addEventListener('mousedown', h)
         return () => document.removeEventListener('mousedown', h)
     }, [])
 
+    /* on open: load recents and resolve token swatches; on close: remember the color if it changed */
+    useEffect(() => {
+        const current = hsva2hex(hsva, withAlpha)
+        if (open) {
+            openedWith.current = current
+            setRecent(recentStorage.load().slice(0, recentCount))
+            setResolvedSwatches(swatches.map(c => resolveColor(c, wrapRef.current)))
+            return
+        }
+        if (openedWith.current !== null && openedWith.current !== current && recentCount > 0) {
+            const next = [current, ...recentStorage.load().filter(c => c !== current)].slice(0, recentCount)
+            recentStorage.save(next)
+            setRecent(next)
+        }
+        openedWith.current = null
+        setSampling(false)
+    }, [open])
+
     const emit = useCallback((hs: HSVA) => {
-        const hex = hsva2hex(hs, withAlpha)
+        const rgba = { ...hsv2rgb(hs.h, hs.s, hs.v), a: hs.a }
         setHsva(hs)
-        setHexText(hex.toUpperCase())
-        onChange?.(hex)
-    }, [onChange, withAlpha])
+        setColorText(formatColor(rgba, format, withAlpha))
+        onChange?.(formatColor(rgba, outputFormat, withAlpha))
+    }, [onChange, withAlpha, format, outputFormat])
+
+    /* keeps the hue when an edited channel set has no saturation to carry it */
+    const emitRgb = (rgb: { r: number; g: number; b: number }, h = hsva.h) => {
+        const next = rgbaToHsva({ ...rgb, a: hsva.a })
+        emit({ ...next, h: next.s === 0 || next.v === 0 ? h : next.h })
+    }
+
+    const switchFormat = (next: ColorFormat) => {
+        setFormat(next)
+        setColorText(formatColor({ ...hsv2rgb(hsva.h, hsva.s, hsva.v), a: hsva.a }, next, withAlpha))
+    }
 
     /* SV panel drag */
     const onSV = (e: React.MouseEvent) => {
@@ -174,23 +363,100 @@ export function ColorPicker({
 
     const { r, g, b } = hsv2rgb(hsva.h, hsva.s, hsva.v)
     const preview = `rgba(${r},${g},${b},${hsva.a})`
-    const hex = hsva2hex(hsva, withAlpha).toUpperCase()
-
-    const applyHexText = () => {
-        const m = /^#?([0-9a-f]{3,8})$/i.exec(hexText.trim())
-        if (m) {
-            let full = m[1]
-            if (full.length === 3) full = full[0]+full[0]+full[1]+full[1]+full[2]+full[2]
-            if (full.length === 6 || full.length === 8) {
-                const { r, g, b, a } = hexToRgba('#' + full)
-                const { h, s, v } = rgb2hsv(r, g, b)
-                emit({ h, s, v, a: withAlpha ? a : 1 })
-                return
-            }
+    const rgba = { r, g, b, a: hsva.a }
+    const display = formatColor(rgba, outputFormat, withAlpha)
+    const hsl = rgb2hsl(r, g, b)
+    const oklch = rgb2oklch(r, g, b)
+
+    /* accepts any CSS color: hex, rgb(), hsl(), oklch(), named */
+    const applyColorText = () => {
+        const parsed = parseColor(colorText)
+        if (parsed) {
+            emit(rgbaToHsva({ ...parsed, a: withAlpha ? parsed.a : 1 }))
+            return
         }
-        setHexText(hex)
+        setColorText(formatColor(rgba, format, withAlpha))
     }
 
+    const channels: ChannelFieldProps[] =
+        format === 'rgb'
+            ? [
+                  { label: 'R', value: r, min: 0, max: 255, step: 1, onCommit: n => emitRgb({ r: Math.round(n), g, b }) },
+                  { label: 'G', value: g, min: 0, max: 255, step: 1, onCommit: n => emitRgb({ r, g: Math.round(n), b }) },
+                  { label: 'B', value: b, min: 0, max: 255, step: 1, onCommit: n => emitRgb({ r, g, b: Math.round(n) }) },
+              ]
+            : format === 'hsl'
+              ? [
+                    { label: 'H', value: hsva.h, min: 0, max: 360, step: 1, onCommit: n => emitRgb(hsl2rgb(n, hsl.s, hsl.l), n) },
+                    { label: 'S', value: hsl.s * 100, min: 0, max: 100, step: 1, onCommit: n => emitRgb(hsl2rgb(hsva.h, n / 100, hsl.l)) },
+                    { label: 'L', value: hsl.l * 100, min: 0, max: 100, step: 1, onCommit: n => emitRgb(hsl2rgb(hsva.h, hsl.s, n / 100)) },
+                ]
+              : format === 'oklch'
+                ? [
+                      { label: 'L', value: oklch.l * 100, min: 0, max: 100, step: 1, digits: 1, onCommit: n => emitRgb(oklch2rgb(n / 100, oklch.c, oklch.h)) },
+                      { label: 'C', value: oklch.c, min: 0, max: 0.4, step: 0.005, digits: 3, onCommit: n => emitRgb(oklch2rgb(oklch.l, n, oklch.h)) },
+                      { label: 'H', value: oklch.h, min: 0, max: 360, step: 1, digits: 1, onCommit: n => emitRgb(oklch2rgb(oklch.l, oklch.c, n)) },
+                  ]
+                : []
+
+    /* fallback eyedropper: the next click on the source element samples its pixel, Escape cancels */
+    useEffect(() => {
+        samplingRef.current = sampling
+        if (!sampling) return
+        const el = eyedropperSource && 'current' in eyedropperSource ? eyedropperSource.current : eyedropperSource
+        if (!el) {
+            setSampling(false)
+            return
+        }
+        const target: HTMLElement = el
+        const prevCursor = target.style.cursor
+        target.style.cursor = 'crosshair'
+        const onClick = (e: MouseEvent) => {
+            e.preventDefault()
+            e.stopPropagation()
+            const picked = sampleElement(el, e.clientX, e.clientY)
+            if (picked) emit(rgbaToHsva({ ...picked, a: withAlpha ? picked.a : 1 }))
+            setSampling(false)
+        }
+        const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') setSampling(false) }
+        target.addEventListener('click', onClick, true)
+        document.addEventListener('keydown', onKey)
+        return () => {
+            target.style.cursor = prevCursor
+            target.removeEventListener('click', onClick, true)
+            document.removeEventListener('keydown', onKey)
+        }
+    }, [sampling, eyedropperSource, emit, withAlpha])
+
+    /* the background is resolved against the picker so theme tokens apply */
+    const contrastSource = showContrast ? contrastAgainst ?? 'var(--ps-background, var(--background, #040404))' : null
+    useEffect(() => {
+        if (!open || !contrastSource) return
+        setContrastBg(resolveColor(contrastSource, wrapRef.current))
+    }, [open, contrastSource])
+
+    const nativeEyedropper = mounted && hasEyeDropper()
+    const showEyedropper = nativeEyedropper || !!eyedropperSource
+
+    const handleEyedropper = async () => {
+        if (!nativeEyedropper) {
+            setSampling(v => !v)
+            return
+        }
+        /* the native picker has no alpha, so the current opacity is kept */
+        const picked = await pickFromScreen()
+        if (picked) emit(rgbaToHsva({ ...picked, a: hsva.a }))
+    }
+
+    const currentHex = hsva2hex(hsva, withAlpha)
+    const contrast = contrastSource && contrastBg ? contrastRatio(rgba, contrastBg) : null
+    /* failing AA suggests the AA fix; passing AA but not AAA suggests the AAA one */
+    const contrastTarget = contrast === null || contrast >= 7 ? null : contrast < 4.5 ? 4.5 : 7
+    const suggestion = contrastTarget && contrastBg ? nearestAccessible(rgba, contrastBg, contrastTarget) : null
+    const pickSwatch = (c: RGBA) => emit(rgbaToHsva({ ...c, a: withAlpha ? c.a : 1 }))
+    const swatchItems = swatches.map((c, i) => ({ key: `${i}-${c}`, color: c, rgba: resolvedSwatches[i] ?? null }))
+    const recentItems = recent.map(c => ({ key: c, color: c, rgba: parseColor(c) }))
+
     const handleReset = (e: React.MouseEvent) => {
         e.stopPropagation()
         if (defaultValue) onChange?.(defaultValue)
@@ -226,7 +492,7 @@ export function ColorPicker({
 
             <button ref={triggerRef} type="button" className={styles.trigger} onClick={e => { e.stopPropagation(); setOpen(v => !v) }}>
                 <span className={styles.swatch} style={{ background: preview }} />
-                <span className={styles.hexLabel}>{hex}</span>
+                <span className={styles.hexLabel}>{display}</span>
             </button>
 
             {mounted && open && createPortal(
@@ -264,15 +530,55 @@ export function ColorPicker({
                         </div>
                     )}
 
-                    {/* Hex input + opacity */}
+                    {/* Format switcher */}
+                    <div className={styles.formats} role="tablist">
+                        {FORMATS.map(f => (
+                            <button
+                                key={f.id}
+                                type="button"
+                                role="tab"
+                                aria-selected={format === f.id}
+                                className={clsx(styles.formatBtn, format === f.id && styles.formatBtnActive)}
+                                onClick={() => switchFormat(f.id)}
+                            >
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Channel fields of the selected format */}
+                    {channels.length > 0 && (
+                        <div className={styles.channels}>
+                            {channels.map(c => <ChannelField key={`${format}-${c.label}`} {...c} />)}
+                        </div>
+                    )}
+
+                    {/* Color text (any CSS color) + opacity */}
                     <div className={styles.inputs}>
                         <input
                             className={styles.hexInput}
-                            value={hexText}
-                            onChange={e => setHexText(e.target.value)}
-                            onBlur={applyHexText}
+                            value={colorText}
+                            spellCheck={false}
+                            onChange={e => setColorText(e.target.value)}
+                            onBlur={applyColorText}
                             onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur() }}
                         />
+                        {showEyedropper && (
+                            <button
+                                type="button"
+                                className={clsx(styles.eyedropperBtn, sampling && styles.eyedropperBtnActive)}
+                                title={eyedropperText}
+                                aria-label={eyedropperText}
+                                aria-pressed={nativeEyedropper ? undefined : sampling}
+                                onClick={handleEyedropper}
+                            >
+                                <svg viewBox="0 0 24 24" width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                    <path d="m2 22 1-1h3l9-9" />
+                                    <path d="M3 21v-3l9-9" />
+                                    <path d="m15 6 3.4-3.4a2.1 2.1 0 1 1 3 3L18 9l.4.4a2.1 2.1 0 1 1-3 3l-3.8-3.8a2.1 2.1 0 1 1 3-3l.4.4Z" />
+                                </svg>
+                            </button>
+                        )}
                         {withAlpha && (
                             <div className={styles.opacityBox}>
                                 <input
@@ -287,6 +593,48 @@ export function ColorPicker({
                             </div>
                         )}
                     </div>
+
+                    {contrast !== null && contrastBg && (
+                        <div className={styles.contrast}>
+                            <div className={styles.contrastRow}>
+                                <span
+                                    className={styles.contrastSample}
+                                    style={{ background: `rgb(${contrastBg.r},${contrastBg.g},${contrastBg.b})`, color: preview }}
+                                    aria-hidden="true"
+                                >
+                                    Aa
+                                </span>
+                                <span className={styles.contrastLabel}>{contrastText}</span>
+                                <span className={styles.contrastRatio}>{contrast.toFixed(2)}:1</span>
+                                {([['AA', 4.5], ['AAA', 7]] as const).map(([level, min]) => (
+                                    <span
+                                        key={level}
+                                        className={clsx(styles.badge, contrast >= min ? styles.badgePass : styles.badgeFail)}
+                                        aria-label={`${level} ${contrast >= min ? 'pass' : 'fail'}`}
+                                    >
+                                        {contrast >= min ? '✓' : '✕'} {level}
+                                    </span>
+                                ))}
+                            </div>
+                            {suggestion && (
+                                <button type="button" className={styles.suggestBtn} onClick={() => emit(rgbaToHsva(suggestion))}>
+                                    <span
+                                        className={styles.suggestSwatch}
+                                        style={{ background: `rgba(${suggestion.r},${suggestion.g},${suggestion.b},${suggestion.a})` }}
+                                    />
+                                    <span>{suggestText} ({contrastTarget === 7 ? 'AAA' : 'AA'})</span>
+                                    <span className={styles.suggestValue}>{formatColor(suggestion, format, withAlpha)}</span>
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {swatchItems.length > 0 && (
+                        <SwatchList title={swatchesText} items={swatchItems} selected={currentHex} withAlpha={withAlpha} onPick={pickSwatch} />
+                    )}
+                    {recentCount > 0 && recentItems.length > 0 && (
+                        <SwatchList title={recentText} items={recentItems} selected={currentHex} withAlpha={withAlpha} onPick={pickSwatch} />
+                    )}
                 </div>,
                 document.body,
             )}
@@ -0,0 +1,38 @@
+/** Where ColorPicker keeps recently picked colors — swap it to share them per user or across devices */
+export interface RecentColorsStorage {
+    load: () => string[]
+    save: (colors: string[]) => void
+}
+
+/** Keeps recent colors in localStorage under `key`; falls back to memory when storage is unavailable */
+export function localRecentColors(key = 'ps-color-picker-recent'): RecentColorsStorage {
+    let memory: string[] = []
+    return {
+        load: () => {
+            try {
+                const raw = window.localStorage.getItem(key)
+                const parsed: unknown = raw ? JSON.parse(raw) : []
+                return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string') : []
+            } catch {
+                return memory
+            }
+        },
+        save: colors => {
+            memory = colors
+            try {
+                window.localStorage.setItem(key, JSON.stringify(colors))
+            } catch {
+                /* private mode or quota — memory copy is enough for this session */
+            }
+        },
+    }
+}
+
+/** Keeps recent colors for the lifetime of the page only */
+export function memoryRecentColors(initial: string[] = []): RecentColorsStorage {
+    let colors = initial
+    return {
+        load: () => colors,
+        save: next => { colors = next },
+    }
+}
@@ -0,0 +1,253 @@
+import { useState, type ReactNode } from 'react'
+import clsx from 'clsx'
+import { Tooltip } from '../Tooltip'
+import { Slider } from '../Slider'
+import { OptionPicker } from '../OptionPicker'
+import { Input } from '../Input'
+import { Button } from '../Button'
+import styles from './equalizer.module.scss'
+
+export interface EqualizerBand {
+    /** Centre frequency in Hz */
+    frequency: number
+    /** Custom label under the band; defaults to "60", "1k", "16k"… */
+    label?: string
+}
+
+export interface EqualizerPreset {
+    name: string
+    /** Gain of every band, in band order */
+    values: number[]
+}
+
+export interface EqualizerProps {
+    /** Bands as frequencies in Hz or band objects */
+    bands: (number | EqualizerBand)[]
+    /** Gain of every band */
+    value: number[]
+    /** Called when a band changes or a preset is applied */
+    onChange?: (value: number[]) => void
+    /** Called once when a band drag ends, a preset is applied or bands are reset */
+    onChangeEnd?: (value: number[]) => void
+    /** Flat curve — a "Reset" link appears when value differs (all bands at 0 by default) */
+    defaultValue?: number[]
+    /** Minimum gain */
+    min?: number
+    /** Maximum gain */
+    max?: number
+    /** Gain step */
+    step?: number
+    /** Formats the gain shown inside each band */
+    formatValue?: (value: number) => ReactNode
+    /** Named presets offered in the preset picker */
+    presets?: EqualizerPreset[]
+    /** Called with a new preset when the user saves the current curve; enables the "Save" button */
+    onSavePreset?: (preset: EqualizerPreset) => void
+    /** Label text */
+    label?: string
+    /** Description tooltip */
+    description?: string
+    /** Draw a curve through the band values */
+    showCurve?: boolean
+    /** Height of the band sliders in px */
+    height?: number
+    /** Disable interaction */
+    disabled?: boolean
+    /** Custom reset text */
+    resetText?: string
+    /** Preset picker text when the curve matches no preset */
+    customPresetText?: string
+    /** Text of the save button */
+    savePresetText?: string
+    /** Placeholder of the preset name field */
+    presetNamePlaceholder?: string
+    /** Additional className */
+    className?: string
+}
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${+(hz / 1000).toFixed(1)}k` : String(hz))
+
+const formatGain = (v: number) => `${v > 0 ? '+' : ''}${v}`
+
+const sameCurve = (a: number[], b: number[]) => a.length === b.length && a.every((v, i) => v === b[i])
+
+/* Smooth path through the points (Catmull-Rom converted to cubic Béziers) */
+function curvePath(points: { x: number; y: number }[]) {
+    return points.reduce((d, p, i, all) => {
+        if (i === 0) return `M ${p.x} ${p.y}`
+        const p0 = all[i - 2] ?? all[i - 1]
+        const p1 = all[i - 1]
+        const p3 = all[i + 1] ?? p
+        const c1x = p1.x + (p.x - p0.x) / 6
+        const c1y = p1.y + (p.y - p0.y) / 6
+        const c2x = p.x - (p3.x - p1.x) / 6
+        const c2y = p.y - (p3.y - p1.y) / 6
+        return `${d} C ${c1x} ${c1y} ${c2x} ${c2y} ${p.x} ${p.y}`
+    }, '')
+}
+
+export function Equalizer({
+    bands,
+    value,
+    onChange,
+    onChangeEnd,
+    defaultValue,
+    min = -12,
+    max = 12,
+    step = 0.5,
+    formatValue = formatGain,
+    presets = [],
+    onSavePreset,
+    label,
+    description,
+    showCurve = true,
+    height = 180,
+    disabled = false,
+    resetText = 'Reset',
+    customPresetText = 'Custom',
+    savePresetText = 'Save preset',
+    presetNamePlaceholder = 'Preset name',
+    className,
+}: EqualizerProps) {
+    const [saving, setSaving] = useState(false)
+    const [presetName, setPresetName] = useState('')
+
+    const bandList = bands.map(b => (typeof b === 'number' ? { frequency: b } : b))
+    const gains = bandList.map((_, i) => Math.min(max, Math.max(min, value[i] ?? 0)))
+    const flat = bandList.map((_, i) => Math.min(max, Math.max(min, defaultValue?.[i] ?? 0)))
+    const canReset = !sameCurve(gains, flat)
+    const activePreset = presets.findIndex(p => sameCurve(bandList.map((_, i) => p.values[i] ?? 0), gains))
+
+    const apply = (next: number[]) => {
+        onChange?.(next)
+        onChangeEnd?.(next)
+    }
+
+    const withBand = (index: number, v: number) => gains.map((g, i) => (i === index ? v : g))
+
+    const handleReset = (e: React.MouseEvent) => {
+        e.stopPropagation()
+        apply(flat)
+    }
+
+    const handlePreset = (key: string) => {
+        const preset = presets[Number(key)]
+        if (!preset) return
+        apply(bandList.map((_, i) => Math.min(max, Math.max(min, preset.values[i] ?? 0))))
+    }
+
+    const savePreset = () => {
+        const name = presetName.trim()
+        if (!name) return
+        onSavePreset?.({ name, values: gains })
+        setPresetName('')
+        setSaving(false)
+    }
+
+    /* SVG y (0 at the top) of a gain; bands are equal-width columns, so a band's x is its column centre */
+    const yOf = (g: number) => (1 - (g - min) / Math.max(0.00001, max - min)) * 100
+    const points = gains.map((g, i) => ({ x: ((i + 0.5) / bandList.length) * 100, y: yOf(g) }))
+
+    return (
+        <div
+            className={clsx(styles.wrapper, disabled && styles.disabled, className)}
+            style={{ '--ps-slider-length': `${height}px` } as React.CSSProperties}
+        >
+            {(label || canReset) && (
+                <div className={styles.labelRow}>
+                    {label && (
+                        <div className={styles.label}>
+                            {label}
+                            {description && (
+                                <Tooltip content={description} position="right">
+                                    <span className={styles.descDot}>?</span>
+                                </Tooltip>
+                            )}
+                        </div>
+                    )}
+                    {canReset && (
+                        <button type="button" className={styles.resetBtn} onClick={handleReset}>
+                            {resetText}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {(presets.length > 0 || onSavePreset) && (
+                <div className={styles.toolbar}>
+                    {presets.length > 0 && (
+                        <OptionPicker
+                            options={presets.map((p, i) => ({ value: i, label: p.name }))}
+                            value={activePreset >= 0 ? activePreset : null}
+                            placeholder={customPresetText}
+                            onChange={handlePreset}
+                            disabled={disabled}
+                            className={styles.presetTrigger}
+                            ariaLabel="Preset"
+                        />
+                    )}
+                    {onSavePreset && !saving && (
+                        <Button variant="ghost" size="sm" disabled={disabled} onClick={() => setSaving(true)}>
+                            {savePresetText}
+                        </Button>
+                    )}
+                    {onSavePreset && saving && (
+                        <div className={styles.saveForm}>
+                            <Input
+                                size="sm"
+                                autoFocus
+                                value={presetName}
+                                placeholder={presetNamePlaceholder}
+                                onChange={e => setPresetName(e.target.value)}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') savePreset()
+                                    if (e.key === 'Escape') setSaving(false)
+                                }}
+                            />
+                            <Button variant="secondary" size="sm" disabled={!presetName.trim()} onClick={savePreset}>
+                                {savePresetText}
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className={styles.bandsArea}>
+                {showCurve && bandList.length > 1 && (
+                    <svg className={styles.curve} viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+                        {min < 0 && max > 0 && (
+                            <line className={styles.zeroLine} x1="0" x2="100" y1={yOf(0)} y2={yOf(0)} vectorEffect="non-scaling-stroke" />
+                        )}
+                        <path className={styles.curvePath} d={curvePath(points)} vectorEffect="non-scaling-stroke" />
+                    </svg>
+                )}
+                <div className={styles.bands} style={{ gridTemplateColumns: `repeat(${bandList.length}, 1fr)` }}>
+                    {bandList.map((band, i) => (
+                        <Slider
+                            key={band.frequency}
+                            orientation="vertical"
+                            min={min}
+                            max={max}
+                            step={step}
+                            value={gains[i]}
+                            onChange={v => onChange?.(withBand(i, v))}
+                            onChangeEnd={v => onChangeEnd?.(withBand(i, v))}
+                            formatValue={formatValue}
+                            showBounds={false}
+                            disabled={disabled}
+                            ariaLabel={band.label ?? `${band.frequency} Hz`}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <div className={styles.frequencies} style={{ gridTemplateColumns: `repeat(${bandList.length}, 1fr)` }}>
+                {bandList.map(band => (
+                    <span key={band.frequency} className={styles.frequency}>
+                        {band.label ?? formatFrequency(band.frequency)}
+                    </span>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,350 @@
+import { AnimatePresence, motion } from 'framer-motion'
+import { createPortal } from 'react-dom'
+import { useEffect, useRef, useState } from 'react'
+import { Slider } from '../Slider'
+import styles from './cropDialog.module.scss'
+
+export interface CropOptions {
+    /** Fixed width / height of the frame (1 for avatars, 3 for banners…); omit for a free, resizable frame */
+    aspectRatio?: number
+    /** Output is scaled down to fit these bounds (px) */
+    maxWidth?: number
+    maxHeight?: number
+    /** Output format */
+    type?: 'image/png' | 'image/jpeg' | 'image/webp'
+    /** Quality for lossy formats, 0…1 */
+    quality?: number
+}
+
+type Rect = { x: number; y: number; w: number; h: number }
+type Point = { x: number; y: number }
+
+type CropDialogProps = {
+    /** Image being cropped; the dialog is open while it is set */
+    file: File | null
+    options: CropOptions
+    texts: { title: string; zoom: string; confirm: string; cancel: string; error: string }
+    onConfirm: (file: File) => void
+    onCancel: () => void
+}
+
+const MAX_ZOOM = 4
+const MIN_FRAME = 40
+/* share of the stage the initial frame takes */
+const FRAME_FILL = 0.8
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), [tabindex]:not([tabindex="-1"])'
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' }
+
+/* scale at which the image just covers the frame */
+const coverScale = (frame: Rect, natural: { w: number; h: number }) => Math.max(frame.w / natural.w, frame.h / natural.h)
+
+/* keeps the image covering the frame: its edges may not move inside the frame */
+const clampOffset = (offset: Point, scale: number, frame: Rect, natural: { w: number; h: number }): Point => ({
+    x: Math.min(frame.x, Math.max(frame.x + frame.w - natural.w * scale, offset.x)),
+    y: Math.min(frame.y, Math.max(frame.y + frame.h - natural.h * scale, offset.y)),
+})
+
+/** Draws the cropped area to a canvas and encodes it as a File named after the source */
+async function renderCrop(img: HTMLImageElement, source: Rect, file: File, options: CropOptions): Promise<File | null> {
+    const type = options.type ?? (file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg')
+    const fit = Math.min(1, (options.maxWidth ?? Infinity) / source.w, (options.maxHeight ?? Infinity) / source.h)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(source.w * fit))
+    canvas.height = Math.max(1, Math.round(source.h * fit))
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(img, source.x, source.y, source.w, source.h, 0, 0, canvas.width, canvas.height)
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, options.quality ?? 0.92))
+    if (!blob) return null
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${EXTENSIONS[type] ?? 'img'}`
+    return new File([blob], name, { type, lastModified: Date.now() })
+}
+
+export function CropDialog({ file, options, texts, onConfirm, onCancel }: CropDialogProps) {
+    const [url, setUrl] = useState<string | null>(null)
+    const [natural, setNatural] = useState<{ w: number; h: number } | null>(null)
+    const [frame, setFrame] = useState<Rect>({ x: 0, y: 0, w: 0, h: 0 })
+    const [baseScale, setBaseScale] = useState(1)
+    const [zoom, setZoom] = useState(1)
+    const [offset, setOffset] = useState<Point>({ x: 0, y: 0 })
+    const [busy, setBusy] = useState(false)
+    const [failed, setFailed] = useState(false)
+    const modalRef = useRef<HTMLDivElement>(null)
+    const stageRef = useRef<HTMLDivElement>(null)
+    const imgRef = useRef<HTMLImageElement>(null)
+    const drag = useRef<{ kind: 'pan' | 'nw' | 'ne' | 'sw' | 'se'; start: Point; offset: Point; frame: Rect } | null>(null)
+
+    const isOpen = file !== null
+    const fixed = options.aspectRatio !== undefined
+
+    /* Blob URL for the image being cropped, revoked when the dialog closes */
+    useEffect(() => {
+        if (!file) return
+        const next = URL.createObjectURL(file)
+        setUrl(next)
+        setNatural(null)
+        setZoom(1)
+        setBusy(false)
+        setFailed(false)
+        return () => URL.revokeObjectURL(next)
+    }, [file])
+
+    /* focus moves into the dialog, stays there while it is open and returns to where it was */
+    useEffect(() => {
+        if (!isOpen) return
+        const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null
+        stageRef.current?.focus()
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onCancel()
+            if (event.key !== 'Tab' || !modalRef.current) return
+            const focusable = Array.from(modalRef.current.querySelectorAll<HTMLElement>(FOCUSABLE))
+            if (!focusable.length) return
+            const first = focusable[0]
+            const last = focusable[focusable.length - 1]
+            const inside = modalRef.current.contains(document.activeElement)
+            if (event.shiftKey && (!inside || document.activeElement === first)) {
+                event.preventDefault()
+                last.focus()
+            } else if (!event.shiftKey && (!inside || document.activeElement === last)) {
+                event.preventDefault()
+                first.focus()
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown)
+            if (previous?.isConnected) previous.focus()
+        }
+    }, [isOpen, onCancel])
+
+    const scale = natural ? Math.max(baseScale * zoom, coverScale(frame, natural)) : 1
+
+    /* centres a frame of the requested aspect (or the image's own) and fits the image into it */
+    const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const img = e.currentTarget
+        const stage = stageRef.current?.getBoundingClientRect()
+        if (!stage) return
+        const size = { w: img.naturalWidth, h: img.naturalHeight }
+        const aspect = options.aspectRatio ?? size.w / size.h
+        const w = Math.min(stage.width * FRAME_FILL, stage.height * FRAME_FILL * aspect)
+        const h = w / aspect
+        const nextFrame = { x: (stage.width - w) / 2, y: (stage.height - h) / 2, w, h }
+        const base = coverScale(nextFrame, size)
+        setNatural(size)
+        setFrame(nextFrame)
+        setBaseScale(base)
+        setOffset({
+            x: nextFrame.x + (nextFrame.w - size.w * base) / 2,
+            y: nextFrame.y + (nextFrame.h - size.h * base) / 2,
+        })
+    }
+
+    /* zooms around the frame centre so the subject stays in place */
+    const applyZoom = (next: number) => {
+        if (!natural) return
+        const z = Math.min(MAX_ZOOM, Math.max(1, next))
+        const nextScale = Math.max(baseScale * z, coverScale(frame, natural))
+        const cx = frame.x + frame.w / 2
+        const cy = frame.y + frame.h / 2
+        setZoom(z)
+        setOffset(clampOffset(
+            { x: cx - ((cx - offset.x) / scale) * nextScale, y: cy - ((cy - offset.y) / scale) * nextScale },
+            nextScale,
+            frame,
+            natural,
+        ))
+    }
+
+    /* React's wheel listener is passive, so the page would scroll behind the modal */
+    const zoomByWheel = useRef<(e: WheelEvent) => void>(() => {})
+    useEffect(() => {
+        zoomByWheel.current = e => applyZoom(zoom - e.deltaY * 0.002)
+    })
+
+    useEffect(() => {
+        const stage = stageRef.current
+        if (!isOpen || !stage) return
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault()
+            zoomByWheel.current(e)
+        }
+        stage.addEventListener('wheel', handleWheel, { passive: false })
+        return () => stage.removeEventListener('wheel', handleWheel)
+    }, [isOpen])
+
+    const handlePointerDown = (e: React.PointerEvent, kind: 'pan' | 'nw' | 'ne' | 'sw' | 'se') => {
+        if (!natural) return
+        e.preventDefault()
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        drag.current = { kind, start: { x: e.clientX, y: e.clientY }, offset, frame }
+    }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const d = drag.current
+        const stage = stageRef.current?.getBoundingClientRect()
+        if (!d || !natural || !stage) return
+        const dx = e.clientX - d.start.x
+        const dy = e.clientY - d.start.y
+
+        if (d.kind === 'pan') {
+            setOffset(clampOffset({ x: d.offset.x + dx, y: d.offset.y + dy }, scale, frame, natural))
+            return
+        }
+
+        /* free frame: the dragged corner moves, the opposite one stays */
+        const left = d.kind === 'nw' || d.kind === 'sw'
+        const top = d.kind === 'nw' || d.kind === 'ne'
+        const x1 = left ? Math.min(d.frame.x + d.frame.w - MIN_FRAME, Math.max(0, d.frame.x + dx)) : d.frame.x
+        const y1 = top ? Math.min(d.frame.y + d.frame.h - MIN_FRAME, Math.max(0, d.frame.y + dy)) : d.frame.y
+        const x2 = left ? d.frame.x + d.frame.w : Math.max(d.frame.x + MIN_FRAME, Math.min(stage.width, d.frame.x + d.frame.w + dx))
+        const y2 = top ? d.frame.y + d.frame.h : Math.max(d.frame.y + MIN_FRAME, Math.min(stage.height, d.frame.y + d.frame.h + dy))
+        const nextFrame = { x: x1, y: y1, w: x2 - x1, h: y2 - y1 }
+        const nextScale = Math.max(baseScale * zoom, coverScale(nextFrame, natural))
+        setFrame(nextFrame)
+        setOffset(clampOffset(offset, nextScale, nextFrame, natural))
+    }
+
+    const handlePointerUp = () => {
+        drag.current = null
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (!natural) return
+        const step = e.shiftKey ? 40 : 10
+        const moves: Record<string, Point> = {
+            ArrowLeft: { x: step, y: 0 },
+            ArrowRight: { x: -step, y: 0 },
+            ArrowUp: { x: 0, y: step },
+            ArrowDown: { x: 0, y: -step },
+        }
+        if (e.key in moves) {
+            e.preventDefault()
+            const m = moves[e.key]
+            setOffset(clampOffset({ x: offset.x + m.x, y: offset.y + m.y }, scale, frame, natural))
+        } else if (e.key === '+' || e.key === '=') {
+            applyZoom(zoom + 0.1)
+        } else if (e.key === '-') {
+            applyZoom(zoom - 0.1)
+        } else if (e.key === 'Enter') {
+            e.preventDefault()
+            void handleConfirm()
+        }
+    }
+
+    const handleConfirm = async () => {
+        const img = imgRef.current
+        if (!file || !img || !natural || busy) return
+        setBusy(true)
+        setFailed(false)
+        const source = {
+            x: (frame.x - offset.x) / scale,
+            y: (frame.y - offset.y) / scale,
+            w: frame.w / scale,
+            h: frame.h / scale,
+        }
+        const cropped = await renderCrop(img, source, file, options).catch(() => null)
+        setBusy(false)
+        if (cropped) onConfirm(cropped)
+        else setFailed(true)
+    }
+
+    const overlayContent = (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className={styles.overlay}
+                    onClick={onCancel}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    transition={{ duration: 0.18 }}
+                >
+                    <motion.div
+                        ref={modalRef}
+                        className={styles.modal}
+                        onClick={event => event.stopPropagation()}
+                        initial={{ opacity: 0, y: 12, scale: 0.98 }}
+                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                        exit={{ opacity: 0, y: 12, scale: 0.98 }}
+                        transition={{ duration: 0.2, ease: 'easeOut' }}
+                        role="dialog"
+                        aria-modal="true"
+                        aria-label={texts.title}
+                    >
+                        <h3 className={styles.title}>{texts.title}</h3>
+                        <div
+                            ref={stageRef}
+                            className={styles.stage}
+                            tabIndex={0}
+                            onPointerDown={e => handlePointerDown(e, 'pan')}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            onKeyDown={handleKeyDown}
+                        >
+                            {url && (
+                                <img
+                                    ref={imgRef}
+                                    className={styles.image}
+                                    src={url}
+                                    alt=""
+                                    draggable={false}
+                                    onLoad={handleLoad}
+                                    style={natural ? {
+                                        left: offset.x,
+                                        top: offset.y,
+                                        width: natural.w * scale,
+                                        height: natural.h * scale,
+                                        opacity: 1,
+                                    } : undefined}
+                                />
+                            )}
+                            {natural && (
+                                <div className={styles.frame} style={{ left: frame.x, top: frame.y, width: frame.w, height: frame.h }}>
+                                    {!fixed && (['nw', 'ne', 'sw', 'se'] as const).map(corner => (
+                                        <span
+                                            key={corner}
+                                            className={styles.handle}
+                                            data-corner={corner}
+                                            onPointerDown={e => handlePointerDown(e, corner)}
+                                            onPointerMove={handlePointerMove}
+                                            onPointerUp={handlePointerUp}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                        <Slider
+                            label={texts.zoom}
+                            min={1}
+                            max={MAX_ZOOM}
+                            step={0.01}
+                            value={Math.round(zoom * 100) / 100}
+                            formatValue={v => `${Math.round(v * 100)}%`}
+                            onChange={applyZoom}
+                        />
+                        {failed && (
+                            <p className={styles.error} role="alert">
+                                {texts.error}
+                            </p>
+                        )}
+                        <div className={styles.actions}>
+                            <button className={styles.cancelButton} onClick={onCancel} type="button">
+                                {texts.cancel}
+                            </button>
+                            <button className={styles.confirmButton} onClick={handleConfirm} disabled={!natural || busy} type="button">
+                                {texts.confirm}
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    )
+
+    return typeof document !== 'undefined' ? createPortal(overlayContent, document.body) : null
+}
@@ -0,0 +1,26 @@
+/**
+ * Checks a file against an `accept` filter the same way the file dialog does:
+ * ".png" matches the extension, "image/*" the MIME group, "image/png" the exact type.
+ * An empty filter accepts everything.
+ */
+export function matchesAccept(file: File, accept: string): boolean {
+    const rules = accept.split(',').map(r => r.trim().toLowerCase()).filter(Boolean)
+    if (!rules.length) return true
+    const name = file.name.toLowerCase()
+    const type = (file.type || '').toLowerCase()
+    return rules.some(rule => {
+        if (rule.startsWith('.')) return name.endsWith(rule)
+        if (rule.endsWith('/*')) return type.startsWith(rule.slice(0, -1))
+        return type === rule
+    })
+}
+
+/** Files carried by a clipboard paste (screenshots, copied images) */
+export function filesFromClipboard(data: DataTransfer | null): File[] {
+    if (!data) return []
+    if (data.files.length) return Array.from(data.files)
+    return Array.from(data.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.getAsFile())
+        .filter((f): f is File => f !== null)
+}
@@ -1,37 +1,125 @@
 import React, { useCallback, useRef, useState, useEffect, type ChangeEvent } from 'react'
 import clsx from 'clsx'
 import { Tooltip } from '../Tooltip'
+import { filesFromClipboard } from './accept'
+import { useObjectUrls } from './useObjectUrls'
+import { useUploads, type FileUploader, type UploadState } from './useUploads'
+import { declaredType, formatSize, rejectionMessage, validateFile, type FileRejection, type FileRules } from './validation'
+import { CropDialog, type CropOptions } from './CropDialog'
+import { audioPeaks, previewKindOf, textHead, videoPoster, type PreviewKind } from './preview'
 import styles from './filePicker.module.scss'
 
-export interface FilePickerProps {
+export type { FileRules, FileRejection, FileRejectCode } from './validation'
+export type { FileUploader, UploadState, UploadStatus } from './useUploads'
+export { createXhrUploader } from './useUploads'
+export type { CropOptions } from './CropDialog'
+
+interface FilePickerBaseProps {
     /** Label text */
     label?: string
     /** Description tooltip */
     description?: string
-    /** Current file name / path (controlled) */
-    value?: string
-    /** Called with file name on selection */
-    onChange?: (fileName: string, file: File | null) => void
     /** Accept filter (e.g. ".png,.jpg,.gif") */
     accept?: string
     /** Placeholder */
     placeholder?: string
-    /** Show image preview if file is an image */
+    /** Show a preview of images, audio (waveform + play), video (poster frame) and text files */
     showPreview?: boolean
     /** External preview URL (e.g. for existing files) */
     previewUrl?: string
-    /** Default file name — shows reset link when differs */
-    defaultValue?: string
     /** Custom reset text */
     resetText?: string
     /** Disable interaction */
     disabled?: boolean
+    /** Text shown over the field while a file is dragged onto it */
+    dropText?: string
+    /** Size, content type and image dimension limits; `accept` is always enforced */
+    rules?: FileRules
+    /** Called with every rejected file and the reason; rejected files never reach `onChange` */
+    onReject?: (rejections: FileRejection[]) => void
+    /** Custom error text for a rejection (defaults to an English description of the broken rule) */
+    rejectMessage?: (rejection: Omit<FileRejection, 'message'>) => string
+    /** Error shown when a file does not match `accept` */
+    invalidTypeText?: string
+    /** Uploads every accepted file, with a progress bar, cancel and retry */
+    upload?: FileUploader
+    /** Called with the uploader's result when a file finished uploading */
+    onUploaded?: (file: File, result: unknown) => void
+    /** Called when an upload fails (not when it is canceled) */
+    onUploadError?: (file: File, error: unknown) => void
+    /** Text of the cancel upload button */
+    cancelText?: string
+    /** Text of the retry upload button */
+    retryText?: string
+    /** Status text of a finished upload */
+    uploadedText?: string
+    /** Status text of a failed upload */
+    uploadErrorText?: string
+    /** Status text of a canceled upload */
+    uploadCanceledText?: string
+    /** Crop raster images in a dialog before they are accepted; pass `{}` for a free frame */
+    crop?: CropOptions
+    /** Title of the crop dialog */
+    cropTitle?: string
+    /** Label of the crop zoom slider */
+    cropZoomText?: string
+    /** Text of the crop dialog's confirm button */
+    cropConfirmText?: string
+    /** Text of the crop dialog's cancel button */
+    cropCancelText?: string
+    /** Error shown in the crop dialog when the image cannot be encoded (too large, out of memory) */
+    cropErrorText?: string
     /** Additional className */
     className?: string
 }
 
+export interface FilePickerSingleProps extends FilePickerBaseProps {
+    multiple?: false
+    /** Current file name / path (controlled) */
+    value?: string
+    /** Called with file name on selection */
+    onChange?: (fileName: string, file: File | null) => void
+    /** Default file name — shows reset link when differs */
+    defaultValue?: string
+}
+
+export interface FilePickerMultipleProps extends FilePickerBaseProps {
+    /** Select several files; they are listed with a thumbnail, name and size */
+    multiple: true
+    /** Selected files (controlled) */
+    value?: File[]
+    /** Called with the full list after files are added or removed */
+    onChange?: (files: File[]) => void
+    /** Default list — shows reset link when the list differs */
+    defaultValue?: File[]
+    /** Maximum number of files; extra files are skipped */
+    maxFiles?: number
+    /** Error shown when files were skipped because of `maxFiles` */
+    maxFilesText?: string
+}
+
+export type FilePickerProps = FilePickerSingleProps | FilePickerMultipleProps
+
 const IMAGE_EXTS = /\.(png|jpe?g|gif|webp|bmp|svg|avif)$/i
 
+const WAVEFORM_BARS = 48
+const TEXT_PREVIEW_LINES = 6
+
+const NO_FILES: File[] = []
+const NO_RULES: FileRules = {}
+
+const isImageFile = (file: File) => IMAGE_EXTS.test(file.name)
+
+/* SVG has no pixels to crop and GIF would lose its animation */
+const isCroppable = (file: File) => /^image\/(png|jpeg|webp|bmp|avif)$/.test(declaredType(file))
+
+const sameFile = (a: File, b: File) => a === b || (a.name === b.name && a.size === b.size && a.lastModified === b.lastModified)
+
+function fileExtension(name: string) {
+    const dot = name.lastIndexOf('.')
+    return dot > 0 ? name.slice(dot + 1, dot + 5).toUpperCase() : 'FILE'
+}
+
 function FolderIcon() {
     return (
         <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -49,125 +137,578 @@ function CloseIcon() {
     )
 }
 
+function PlayIcon({ playing }: { playing: boolean }) {
+    return playing ? (
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+            <rect x="6" y="4" width="4" height="16" rx="1" />
+            <rect x="14" y="4" width="4" height="16" rx="1" />
+        </svg>
+    ) : (
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M7 4.5v15a1 1 0 0 0 1.5.86l12-7.5a1 1 0 0 0 0-1.72l-12-7.5A1 1 0 0 0 7 4.5z" />
+        </svg>
+    )
+}
+
+const formatTime = (seconds: number) => {
+    const s = Math.max(0, Math.floor(seconds || 0))
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`
+}
+
+/* Inline player: play/pause, decoded waveform that fills as it plays and seeks on click */
+function AudioPreview({ src, peaks }: { src: string; peaks: number[] | null }) {
+    const audioRef = useRef<HTMLAudioElement>(null)
+    const [playing, setPlaying] = useState(false)
+    const [time, setTime] = useState(0)
+    const [duration, setDuration] = useState(0)
+    const bars = peaks ?? Array.from({ length: WAVEFORM_BARS }, () => 0.15)
+    const progress = duration ? time / duration : 0
+
+    const toggle = () => {
+        const audio = audioRef.current
+        if (!audio) return
+        if (audio.paused) void audio.play()
+        else audio.pause()
+    }
+
+    const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+        const audio = audioRef.current
+        if (!audio || !duration) return
+        const rect = e.currentTarget.getBoundingClientRect()
+        audio.currentTime = ((e.clientX - rect.left) / rect.width) * duration
+    }
+
+    return (
+        <div className={styles.audioPreview} onClick={e => e.stopPropagation()}>
+            <audio
+                ref={audioRef}
+                src={src}
+                preload="metadata"
+                onPlay={() => setPlaying(true)}
+                onPause={() => setPlaying(false)}
+                onEnded={() => setPlaying(false)}
+                onTimeUpdate={e => setTime(e.currentTarget.currentTime)}
+                onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+            />
+            <button type="button" className={styles.playBtn} onClick={toggle} aria-label={playing ? 'Pause' : 'Play'}>
+                <PlayIcon playing={playing} />
+            </button>
+            <div className={clsx(styles.waveform, !peaks && styles.waveformPending)} onClick={seek}>
+                {bars.map((peak, i) => (
+                    <span
+                        key={i}
+                        className={clsx(styles.waveBar, i / bars.length < progress && styles.waveBarPlayed)}
+                        style={{ height: `${Math.max(8, peak * 100)}%` }}
+                    />
+                ))}
+            </div>
+            <span className={styles.audioTime}>{formatTime(playing || time ? time : duration)}</span>
+        </div>
+    )
+}
+
+type UploadProgressProps = {
+    state: UploadState
+    texts: { cancel: string; retry: string; uploaded: string; error: string; canceled: string }
+    onCancel: () => void
+    onRetry: () => void
+}
+
+function UploadProgress({ state, texts, onCancel, onRetry }: UploadProgressProps) {
+    const percent = Math.round(state.progress * 100)
+    const status =
+        state.status === 'uploading' ? `${percent}%`
+        : state.status === 'done' ? texts.uploaded
+        : state.status === 'error' ? texts.error
+        : texts.canceled
+
+    return (
+        <div
+            className={clsx(
+                styles.upload,
+                state.status === 'done' && styles.uploadDone,
+                (state.status === 'error' || state.status === 'canceled') && styles.uploadFailed,
+            )}
+        >
+            <div className={styles.progressTrack} role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent}>
+                <div className={styles.progressFill} style={{ width: `${percent}%` }} />
+            </div>
+            <span className={styles.uploadStatus} aria-live="polite">{status}</span>
+            {state.status === 'uploading' && (
+                <button type="button" className={styles.uploadBtn} onClick={onCancel}>{texts.cancel}</button>
+            )}
+            {(state.status === 'error' || state.status === 'canceled') && (
+                <button type="button" className={styles.uploadBtn} onClick={onRetry}>{texts.retry}</button>
+            )}
+        </div>
+    )
+}
+
+export function FilePicker(props: FilePickerProps) {
+    const {
+        label,
+        description,
+        accept = '',
+        showPreview = true,
+        previewUrl,
+        resetText = 'Reset',
+        disabled = false,
+        dropText = props.multiple ? 'Drop files here' : 'Drop file here',
+        rules = NO_RULES,
+        onReject,
+        rejectMessage,
+        invalidTypeText,
+        upload,
+        onUploaded,
+        onUploadError,
+        cancelText = 'Cancel',
+        retryText = 'Retry',
+        uploadedText = 'Uploaded',
+        uploadErrorText = 'Upload failed',
+        uploadCanceledText = 'Upload canceled',
+        crop,
+        cropTitle = 'Crop image',
+        cropZoomText = 'Zoom',
+        cropConfirmText = 'Apply',
+        cropCancelText = 'Cancel',
+        cropErrorText = 'Could not crop this image',
+        className,
+    } = props
+    const multiple = props.multiple === true
+    const placeholder = props.placeholder ?? (multiple ? 'Select files…' : 'Select a file…')
+    const value = multiple ? '' : props.value ?? ''
+    const files = multiple ? props.value ?? NO_FILES : NO_FILES
+    const thumbnails = useObjectUrls(files, isImageFile)
+    const uploader = useUploads({ upload, onUploaded, onUploadError })
+    const uploadTexts = {
+        cancel: cancelText,
+        retry: retryText,
+        uploaded: uploadedText,
+        error: uploadErrorText,
+        canceled: uploadCanceledText,
+    }
 
-export function FilePicker({
-    label,
-    description,
-    value = '',
-    onChange,
-    accept = '',
-    placeholder = 'Select a file…',
-    showPreview = true,
-    previewUrl,
-    defaultValue,
-    resetText = 'Reset',
-    disabled = false,
-    className,
-}: FilePickerProps) {
     const inputRef = useRef<HTMLInputElement>(null)
     const [localPreview, setLocalPreview] = useState<string | null>(null)
     const [imgLoaded, setImgLoaded] = useState(false)
+    const [previewKind, setPreviewKind] = useState<PreviewKind | null>(null)
+    const [peaks, setPeaks] = useState<number[] | null>(null)
+    const [textLines, setTextLines] = useState<string[] | null>(null)
+    /* bumps with every selection so slow decoding of an older file is ignored */
+    const previewToken = useRef(0)
+    const [dragOver, setDragOver] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    /* dragenter/dragleave fire for every child, so count them to know when the pointer really left */
+    const dragDepth = useRef(0)
+    /* single mode only knows the file name from `value`, the File itself is kept for uploads */
+    const [singleFile, setSingleFile] = useState<File | null>(null)
+    /* images waiting for the crop dialog, cropped one at a time */
+    const [cropQueue, setCropQueue] = useState<File[]>([])
+    /* validation is async: commits read the latest list, not the one from the render that started them */
+    const filesRef = useRef(files)
+    /* bumps when a newer pick replaces the single file or the value is cleared; older batches are dropped */
+    const batchRef = useRef(0)
 
-    const isImage = IMAGE_EXTS.test(value)
-    const displayPreview = showPreview && (localPreview || previewUrl) && isImage
+    useEffect(() => {
+        filesRef.current = files
+    }, [files])
 
     /* Revoke blob URL on unmount */
     useEffect(() => {
         return () => { if (localPreview) URL.revokeObjectURL(localPreview) }
     }, [localPreview])
 
-    const handleFile = useCallback((e: ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0]
-        if (!file) return
+    /* files that left the list (removed, cleared, reset by the parent) stop uploading */
+    useEffect(() => {
+        if (!multiple) return
+        for (const file of uploader.uploads.keys()) {
+            if (!files.includes(file)) uploader.forget(file)
+        }
+    }, [files, multiple])
 
-        /* Create preview if image */
-        if (IMAGE_EXTS.test(file.name)) {
-            if (localPreview) URL.revokeObjectURL(localPreview)
+    const resetPreview = () => {
+        previewToken.current++
+        if (localPreview) URL.revokeObjectURL(localPreview)
+        setLocalPreview(null)
+        setImgLoaded(false)
+        setPreviewKind(null)
+        setPeaks(null)
+        setTextLines(null)
+    }
+
+    /* audio, video and text previews are decoded asynchronously; results for a replaced file are dropped */
+    const buildPreview = (file: File) => {
+        const token = ++previewToken.current
+        const current = () => token === previewToken.current
+        const kind = previewKindOf(file)
+        if (kind === 'image' && IMAGE_EXTS.test(file.name)) {
+            setPreviewKind('image')
+            setLocalPreview(URL.createObjectURL(file))
+        } else if (kind === 'audio') {
+            setPreviewKind('audio')
             setLocalPreview(URL.createObjectURL(file))
-            setImgLoaded(false)
-        } else {
-            if (localPreview) URL.revokeObjectURL(localPreview)
-            setLocalPreview(null)
+            void audioPeaks(file, WAVEFORM_BARS).then(p => { if (current()) setPeaks(p) }, () => {})
+        } else if (kind === 'video') {
+            setPreviewKind('video')
+            void videoPoster(file).then(blob => { if (blob && current()) setLocalPreview(URL.createObjectURL(blob)) }, () => {})
+        } else if (kind === 'text') {
+            setPreviewKind('text')
+            void textHead(file, TEXT_PREVIEW_LINES).then(lines => { if (current()) setTextLines(lines) }, () => {})
+        }
+    }
+
+    const dropSingleFile = () => {
+        if (singleFile) uploader.forget(singleFile)
+        setSingleFile(null)
+    }
+
+    /* Single mode: replace the file and its preview */
+    const acceptFile = (file: File) => {
+        if (props.multiple) return
+        setError(null)
+
+        resetPreview()
+        if (showPreview) buildPreview(file)
+
+        if (singleFile && singleFile !== file) uploader.forget(singleFile)
+        setSingleFile(file)
+        uploader.start(file)
+
+        props.onChange?.(file.name, file)
+    }
+
+    /* Multiple mode: append new files up to `maxFiles`, skipping ones already listed; returns the files that did not fit */
+    const addFiles = (incoming: File[]) => {
+        if (!props.multiple) return []
+        const current = filesRef.current
+        const fresh = incoming.filter(f => !current.some(existing => sameFile(existing, f)))
+        const room = props.maxFiles === undefined ? fresh.length : Math.max(0, props.maxFiles - current.length)
+        const added = fresh.slice(0, room)
+        if (added.length) {
+            const next = [...current, ...added]
+            /* a second batch finishing before the parent re-renders must see these files */
+            filesRef.current = next
+            props.onChange?.(next)
+            added.forEach(uploader.start)
+        }
+        return fresh.slice(room)
+    }
+
+    const removeFile = (file: File) => {
+        if (!props.multiple) return
+        setError(null)
+        props.onChange?.(files.filter(f => f !== file))
+    }
+
+    const messageFor = (r: Omit<FileRejection, 'message'>) => {
+        const custom = r.code === 'type' ? invalidTypeText : r.code === 'too-many' && props.multiple ? props.maxFilesText : undefined
+        return rejectMessage?.(r) ?? custom ?? rejectionMessage(r)
+    }
+
+    /* hands validated files to the value and reports everything that did not make it */
+    const commitFiles = (accepted: File[], rejected: Omit<FileRejection, 'message'>[]) => {
+        if (multiple) {
+            const before = filesRef.current.length
+            for (const file of addFiles(accepted)) {
+                rejected.push({ file, code: 'too-many', actual: before + accepted.length, expected: props.multiple ? props.maxFiles : 1 })
+            }
+        } else if (accepted[0]) {
+            acceptFile(accepted[0])
         }
 
-        onChange?.(file.name, file)
+        if (!rejected.length) {
+            setError(null)
+            return
+        }
+        const rejections = rejected.map(r => ({ ...r, message: messageFor(r) }))
+        setError(rejections.length > 1 ? `${rejections[0].message} (+${rejections.length - 1})` : rejections[0].message)
+        onReject?.(rejections)
+    }
+
+    /* reading may fail (file moved or deleted after picking, permissions) — reject that file, not the batch */
+    const checkFile = (file: File, fileRules: FileRules) =>
+        validateFile(file, accept, fileRules).catch(
+            (error: unknown): Omit<FileRejection, 'message'> => ({
+                file,
+                code: 'unreadable',
+                actual: error instanceof Error ? error.name : 'unknown',
+            }),
+        )
+
+    /*
+     * Single entry point for files from the dialog, a drop or a paste. Everything is
+     * validated here — the dialog's `accept` filter is only a hint and drops/pastes skip it.
+     */
+    const takeFiles = async (incoming: File[]) => {
+        const candidates = multiple ? incoming : incoming.slice(0, 1)
+        /* drops in multiple mode add up; in single mode the latest pick wins */
+        const batch = multiple ? batchRef.current : ++batchRef.current
+        const willCrop = (f: File) => !!crop && isCroppable(f)
+        /* size and dimension rules apply to what is kept — for images that get cropped, the cropped file */
+        const results = await Promise.all(
+            candidates.map(f => checkFile(f, willCrop(f) ? { sniffType: rules.sniffType } : rules)),
+        )
+        if (batch !== batchRef.current) return
+        const rejected = results.filter((r): r is Omit<FileRejection, 'message'> => r !== null)
+        const passed = candidates.filter((_, i) => results[i] === null)
+        const toCrop = passed.filter(willCrop)
+        if (toCrop.length) setCropQueue(queue => (multiple ? [...queue, ...toCrop] : toCrop))
+        commitFiles(passed.filter(f => !toCrop.includes(f)), rejected)
+    }
+
+    const handleCropConfirm = async (cropped: File) => {
+        setCropQueue(queue => queue.slice(1))
+        const batch = batchRef.current
+        const rejection = await checkFile(cropped, rules)
+        if (batch !== batchRef.current) return
+        commitFiles(rejection ? [] : [cropped], rejection ? [rejection] : [])
+    }
+
+    const handleCropCancel = useCallback(() => setCropQueue(queue => queue.slice(1)), [])
+
+    const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+        const picked = Array.from(e.target.files ?? [])
+        if (!picked.length) return
+        void takeFiles(picked)
         e.target.value = ''
-    }, [onChange, localPreview])
+    }
 
-    const clear = useCallback(() => {
-        if (localPreview) URL.revokeObjectURL(localPreview)
-        setLocalPreview(null)
-        setImgLoaded(false)
-        onChange?.('', null)
-    }, [onChange, localPreview])
+    const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files')
+
+    const handleDragEnter = (e: React.DragEvent) => {
+        if (disabled || !hasFiles(e)) return
+        e.preventDefault()
+        dragDepth.current++
+        setDragOver(true)
+    }
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (disabled || !hasFiles(e)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'copy'
+    }
+
+    const handleDragLeave = () => {
+        dragDepth.current = Math.max(0, dragDepth.current - 1)
+        if (dragDepth.current === 0) setDragOver(false)
+    }
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (disabled) return
+        e.preventDefault()
+        dragDepth.current = 0
+        setDragOver(false)
+        void takeFiles(Array.from(e.dataTransfer.files))
+    }
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        if (disabled) return
+        const files = filesFromClipboard(e.clipboardData)
+        if (!files.length) return
+        e.preventDefault()
+        void takeFiles(files)
+    }
+
+    const clear = () => {
+        batchRef.current++
+        setError(null)
+        if (props.multiple) {
+            props.onChange?.([])
+            return
+        }
+        resetPreview()
+        dropSingleFile()
+        props.onChange?.('', null)
+    }
 
     const openPicker = () => inputRef.current?.click()
 
-    const preview = localPreview || previewUrl || null
-    const canReset = defaultValue !== undefined && value !== defaultValue
+    /* the local preview belongs to the picked file; once the parent changes `value` only `previewUrl` applies */
+    const localShown = showPreview && !multiple && previewKind !== null && singleFile?.name === value
+    const imageSrc = localShown
+        ? previewKind === 'image' || previewKind === 'video' ? localPreview : null
+        : showPreview && !multiple && IMAGE_EXTS.test(value) ? previewUrl ?? null : null
+    const canReset = props.multiple
+        ? props.defaultValue !== undefined &&
+          (props.defaultValue.length !== files.length || props.defaultValue.some((f, i) => !sameFile(f, files[i])))
+        : props.defaultValue !== undefined && value !== props.defaultValue
 
     const handleReset = (e: React.MouseEvent) => {
         e.stopPropagation()
-        if (localPreview) URL.revokeObjectURL(localPreview)
-        setLocalPreview(null)
-        setImgLoaded(false)
-        onChange?.(defaultValue ?? '', null)
+        batchRef.current++
+        setError(null)
+        if (props.multiple) {
+            props.onChange?.(props.defaultValue ?? [])
+            return
+        }
+        resetPreview()
+        dropSingleFile()
+        props.onChange?.(props.defaultValue ?? '', null)
     }
 
+    const fieldText = multiple ? files.map(f => f.name).join(', ') : value
+    const singleUpload = !multiple && singleFile && singleFile.name === value ? uploader.uploads.get(singleFile) : undefined
+
     return (
-        <div className={clsx(styles.wrapper, disabled && styles.disabled, className)} onClick={openPicker} style={{ cursor: disabled ? 'default' : 'pointer' }}>
-            {/* Image preview */}
-            {displayPreview && preview && (
-                <div className={clsx(styles.previewWrap, imgLoaded && styles.previewLoaded)} onClick={openPicker}>
-                    <img
-                        className={styles.previewImg}
-                        src={preview}
-                        alt=""
-                        onLoad={() => setImgLoaded(true)}
-                        onError={() => setImgLoaded(false)}
-                    />
-                </div>
-            )}
+        <>
+            <div
+                className={clsx(styles.wrapper, disabled && styles.disabled, dragOver && styles.dragOver, error && styles.hasError, className)}
+                onClick={openPicker}
+                style={{ cursor: disabled ? 'default' : 'pointer' }}
+                tabIndex={disabled ? -1 : 0}
+                onKeyDown={e => {
+                    if (e.target !== e.currentTarget) return
+                    if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault()
+                        openPicker()
+                    }
+                }}
+                onPaste={handlePaste}
+                onDragEnter={handleDragEnter}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+            >
+                {dragOver && (
+                    <div className={styles.dropOverlay}>
+                        <FolderIcon />
+                        <span>{dropText}</span>
+                    </div>
+                )}
 
-            {(label || canReset) && (
-                <div className={styles.labelRow}>
-                    {label && (
-                        <div className={styles.label}>
-                            {label}
-                            {description && (
-                                <Tooltip content={description} position="right">
-                                    <span className={styles.descDot}>?</span>
-                                </Tooltip>
-                            )}
-                        </div>
+                {/* Image / video poster preview */}
+                {imageSrc && (
+                    <div className={clsx(styles.previewWrap, imgLoaded && styles.previewLoaded)} onClick={openPicker}>
+                        <img
+                            className={styles.previewImg}
+                            src={imageSrc}
+                            alt=""
+                            onLoad={() => setImgLoaded(true)}
+                            onError={() => setImgLoaded(false)}
+                        />
+                        {localShown && previewKind === 'video' && (
+                            <span className={styles.previewBadge}>
+                                <PlayIcon playing={false} />
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {localShown && previewKind === 'audio' && localPreview && (
+                    <AudioPreview key={localPreview} src={localPreview} peaks={peaks} />
+                )}
+
+                {localShown && previewKind === 'text' && textLines && (
+                    <pre className={styles.textPreview}>{textLines.join('\n')}</pre>
+                )}
+
+                {(label || canReset) && (
+                    <div className={styles.labelRow}>
+                        {label && (
+                            <div className={styles.label}>
+                                {label}
+                                {description && (
+                                    <Tooltip content={description} position="right">
+                                        <span className={styles.descDot}>?</span>
+                                    </Tooltip>
+                                )}
+                            </div>
+                        )}
+                        {canReset && (
+                            <button type="button" className={styles.resetBtn} onClick={handleReset}>
+                                {resetText}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <div className={styles.field} onClick={e => e.stopPropagation()}>
+                    <input
+                        className={styles.textInput}
+                        value={fieldText}
+                        placeholder={placeholder}
+                        readOnly
+                        onClick={openPicker}
+                    />
+                    {props.multiple && props.maxFiles !== undefined && (
+                        <span className={styles.counter}>{files.length} / {props.maxFiles}</span>
                     )}
-                    {canReset && (
-                        <button type="button" className={styles.resetBtn} onClick={handleReset}>
-                            {resetText}
+                    {fieldText && (
+                        <button type="button" className={styles.clearBtn} onClick={e => { e.stopPropagation(); clear() }} title="Clear">
+                            <CloseIcon />
                         </button>
                     )}
+                    <button type="button" className={styles.pickBtn} onClick={e => { e.stopPropagation(); openPicker() }} title="Browse">
+                        <FolderIcon />
+                    </button>
                 </div>
-            )}
 
-            <div className={styles.field} onClick={e => e.stopPropagation()}>
+                {singleUpload && singleFile && (
+                    <div className={styles.singleUpload} onClick={e => e.stopPropagation()}>
+                        <UploadProgress
+                            state={singleUpload}
+                            texts={uploadTexts}
+                            onCancel={() => uploader.cancel(singleFile)}
+                            onRetry={() => uploader.start(singleFile)}
+                        />
+                    </div>
+                )}
+
+                {multiple && files.length > 0 && (
+                    <ul className={styles.fileList} onClick={e => e.stopPropagation()}>
+                        {files.map(file => {
+                            const thumb = showPreview ? thumbnails.get(file) : undefined
+                            return (
+                                <li key={`${file.name}-${file.size}-${file.lastModified}`} className={styles.fileItem}>
+                                    {thumb ? (
+                                        <img className={styles.fileThumb} src={thumb} alt="" />
+                                    ) : (
+                                        <span className={clsx(styles.fileThumb, styles.fileExt)}>{fileExtension(file.name)}</span>
+                                    )}
+                                    <span className={styles.fileInfo}>
+                                        <span className={styles.fileName} title={file.name}>{file.name}</span>
+                                        {uploader.uploads.get(file) && (
+                                            <UploadProgress
+                                                state={uploader.uploads.get(file) as UploadState}
+                                                texts={uploadTexts}
+                                                onCancel={() => uploader.cancel(file)}
+                                                onRetry={() => uploader.start(file)}
+                                            />
+                                        )}
+                                    </span>
+                                    <span className={styles.fileSize}>{formatSize(file.size)}</span>
+                                    <button type="button" className={styles.clearBtn} onClick={() => removeFile(file)} title="Remove">
+                                        <CloseIcon />
+                                    </button>
+                                </li>
+                            )
+                        })}
+                    </ul>
+                )}
+
+                {error && <div className={styles.error} role="alert">{error}</div>}
+
                 <input
-                    className={styles.textInput}
-                    value={value}
-                    placeholder={placeholder}
-                    readOnly
-                    onClick={openPicker}
+                    ref={inputRef}
+                    type="file"
+                    accept={accept}
+                    multiple={multiple}
+                    onChange={handleFile}
+                    className={styles.hidden}
+                    tabIndex={-1}
                 />
-                {value && (
-                    <button type="button" className={styles.clearBtn} onClick={e => { e.stopPropagation(); clear() }} title="Clear">
-                        <CloseIcon />
-                    </button>
-                )}
-                <button type="button" className={styles.pickBtn} onClick={e => { e.stopPropagation(); openPicker() }} title="Browse">
-                    <FolderIcon />
-                </button>
             </div>
 
-            <input ref={inputRef} type="file" accept={accept} onChange={handleFile} className={styles.hidden} tabIndex={-1} />
-        </div>
+            {/* outside the wrapper so clicks in the portal do not bubble into openPicker */}
+            {crop && (
+                <CropDialog
+                    file={cropQueue[0] ?? null}
+                    options={crop}
+                    texts={{ title: cropTitle, zoom: cropZoomText, confirm: cropConfirmText, cancel: cropCancelText, error: cropErrorText }}
+                    onConfirm={file => void handleCropConfirm(file)}
+                    onCancel={handleCropCancel}
+                />
+            )}
+        </>
     )
-}
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { declaredType } from './validation'
+
+export type PreviewKind = 'image' | 'audio' | 'video' | 'text'
+
+const TEXT_EXTS = /\.(txt|json|md|csv|css|js|ts|xml|yml|yaml|ini|log)$/i
+
+/* text previews only read this much of the file */
+const TEXT_HEAD_BYTES = 8 * 1024
+
+/* the whole file is decoded to PCM (roughly ten times its size), so large files get no waveform */
+const WAVEFORM_MAX_BYTES = 8 * 1024 * 1024
+
+export function previewKindOf(file: File): PreviewKind | null {
+    const type = declaredType(file)
+    if (type.startsWith('image/')) return 'image'
+    if (type.startsWith('audio/')) return 'audio'
+    if (type.startsWith('video/')) return 'video'
+    if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTS.test(file.name)) return 'text'
+    return null
+}
+
+/** First `count` lines of a text file; JSON on a single line is pretty-printed first */
+export async function textHead(file: File, count: number): Promise<string[]> {
+    const text = await file.slice(0, TEXT_HEAD_BYTES).text()
+    let lines = text.split(/\r?\n/)
+    if (lines.length === 1 && /\.json$/i.test(file.name) && file.size <= TEXT_HEAD_BYTES) {
+        try {
+            lines = JSON.stringify(JSON.parse(text), null, 2).split('\n')
+        } catch {
+            /* not valid JSON — show it as is */
+        }
+    }
+    return lines.slice(0, count)
+}
+
+/** Peak amplitude (0…1) of `bars` equal slices of the decoded audio, or null when it cannot be decoded or is too large */
+export async function audioPeaks(file: File, bars: number): Promise<number[] | null> {
+    const Ctx = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    if (!Ctx || file.size > WAVEFORM_MAX_BYTES) return null
+    let ctx: AudioContext | null = null
+    try {
+        /* the constructor itself throws when the browser is out of audio contexts */
+        ctx = new Ctx()
+        const buffer = await ctx.decodeAudioData(await file.arrayBuffer())
+        const data = buffer.getChannelData(0)
+        const size = Math.max(1, Math.floor(data.length / bars))
+        const peaks: number[] = []
+        for (let i = 0; i < bars; i++) {
+            let peak = 0
+            /* every slice is sampled with a stride — exact peaks are not needed for a thumbnail */
+            const stride = Math.max(1, Math.floor(size / 200))
+            for (let j = i * size; j < (i + 1) * size && j < data.length; j += stride) {
+                peak = Math.max(peak, Math.abs(data[j]))
+            }
+            peaks.push(peak)
+        }
+        const max = Math.max(...peaks, 0.0001)
+        return peaks.map(p => p / max)
+    } catch {
+        return null
+    } finally {
+        void ctx?.close().catch(() => {})
+    }
+}
+
+/** Poster frame from the first second of a video, or null when the browser cannot decode it */
+export function videoPoster(file: File): Promise<Blob | null> {
+    return new Promise(resolve => {
+        const url = URL.createObjectURL(file)
+        const video = document.createElement('video')
+        const done = (blob: Blob | null) => {
+            URL.revokeObjectURL(url)
+            video.removeAttribute('src')
+            video.load()
+            resolve(blob)
+        }
+        video.muted = true
+        video.playsInline = true
+        video.preload = 'metadata'
+        video.onloadedmetadata = () => {
+            /* the very first frame is often black, so look a little later — at most one second in */
+            video.currentTime = Math.min(1, (video.duration || 0) / 2)
+        }
+        video.onseeked = () => {
+            const canvas = document.createElement('canvas')
+            canvas.width = video.videoWidth
+            canvas.height = video.videoHeight
+            const ctx = canvas.getContext('2d')
+            if (!ctx || !canvas.width) {
+                done(null)
+                return
+            }
+            ctx.drawImage(video, 0, 0)
+            canvas.toBlob(done, 'image/jpeg', 0.85)
+        }
+        video.onerror = () => done(null)
+        video.src = url
+    })
+}
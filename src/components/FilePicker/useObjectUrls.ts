@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from 'react'
+
+/**
+ * Blob URLs for a list of files. URLs are reused while a file stays in the list,
+ * revoked as soon as it leaves, and all revoked on unmount.
+ */
+export function useObjectUrls(files: File[], include: (file: File) => boolean): Map<File, string> {
+    const cache = useRef(new Map<File, string>())
+    const [urls, setUrls] = useState<Map<File, string>>(() => new Map())
+
+    useEffect(() => {
+        const next = new Map<File, string>()
+        for (const file of files) {
+            if (!include(file)) continue
+            next.set(file, cache.current.get(file) ?? URL.createObjectURL(file))
+        }
+        let changed = next.size !== cache.current.size
+        for (const [file, url] of cache.current) {
+            if (next.has(file)) continue
+            URL.revokeObjectURL(url)
+            changed = true
+        }
+        if (!changed) return
+        cache.current = next
+        setUrls(next)
+    }, [files])
+
+    useEffect(() => () => {
+        for (const url of cache.current.values()) URL.revokeObjectURL(url)
+        cache.current = new Map()
+    }, [])
+
+    return urls
+}
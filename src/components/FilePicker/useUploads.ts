@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+/**
+ * Uploads one file. Report progress as a 0…1 fraction; stop and reject when
+ * `signal` aborts (cancel button, file removed, picker unmounted).
+ */
+export type FileUploader<R = unknown> = (
+    file: File,
+    onProgress: (fraction: number) => void,
+    signal: AbortSignal,
+) => Promise<R>
+
+export type UploadStatus = 'uploading' | 'done' | 'error' | 'canceled'
+
+export interface UploadState {
+    status: UploadStatus
+    /** 0…1 */
+    progress: number
+    error?: unknown
+}
+
+interface UseUploadsParams<R> {
+    upload?: FileUploader<R>
+    onUploaded?: (file: File, result: R) => void
+    onUploadError?: (file: File, error: unknown) => void
+}
+
+export function useUploads<R>({ upload, onUploaded, onUploadError }: UseUploadsParams<R>) {
+    const [uploads, setUploads] = useState<Map<File, UploadState>>(() => new Map())
+    const controllers = useRef(new Map<File, AbortController>())
+    const callbacks = useRef({ upload, onUploaded, onUploadError })
+
+    useEffect(() => {
+        callbacks.current = { upload, onUploaded, onUploadError }
+    }, [upload, onUploaded, onUploadError])
+
+    const patch = useCallback((file: File, next: Partial<UploadState>) => {
+        setUploads(prev => {
+            const map = new Map(prev)
+            map.set(file, { status: 'uploading', progress: 0, ...prev.get(file), ...next })
+            return map
+        })
+    }, [])
+
+    /* (re)starts a file's upload; also used for retry */
+    const start = useCallback((file: File) => {
+        const run = callbacks.current.upload
+        if (!run) return
+        controllers.current.get(file)?.abort()
+        const controller = new AbortController()
+        controllers.current.set(file, controller)
+        patch(file, { status: 'uploading', progress: 0, error: undefined })
+
+        const onProgress = (fraction: number) => {
+            if (!controller.signal.aborted) patch(file, { progress: Math.min(1, Math.max(0, fraction)) })
+        }
+
+        /* a synchronous throw from the uploader ends up in the same error handling */
+        Promise.resolve().then(() => run(file, onProgress, controller.signal)).then(
+            result => {
+                if (controller.signal.aborted) return
+                controllers.current.delete(file)
+                patch(file, { status: 'done', progress: 1 })
+                callbacks.current.onUploaded?.(file, result)
+            },
+            error => {
+                /* aborted by `cancel` keeps the row with a retry button; `forget` already dropped it */
+                if (controller.signal.aborted) {
+                    if (controllers.current.get(file) === controller) patch(file, { status: 'canceled' })
+                    return
+                }
+                controllers.current.delete(file)
+                patch(file, { status: 'error', error })
+                callbacks.current.onUploadError?.(file, error)
+            },
+        )
+    }, [patch])
+
+    const cancel = useCallback((file: File) => {
+        controllers.current.get(file)?.abort()
+    }, [])
+
+    /* stops and drops a file that left the picker */
+    const forget = useCallback((file: File) => {
+        const controller = controllers.current.get(file)
+        controllers.current.delete(file)
+        controller?.abort()
+        setUploads(prev => {
+            if (!prev.has(file)) return prev
+            const map = new Map(prev)
+            map.delete(file)
+            return map
+        })
+    }, [])
+
+    useEffect(() => () => {
+        for (const controller of controllers.current.values()) controller.abort()
+        controllers.current.clear()
+    }, [])
+
+    return { uploads, enabled: !!upload, start, cancel, forget }
+}
+
+interface XhrUploaderOptions {
+    /** Endpoint that receives the file */
+    url: string
+    /** HTTP method (POST by default) */
+    method?: string
+    /** Multipart field name (`file` by default); pass `null` to send the raw file as the body */
+    fieldName?: string | null
+    /** Extra request headers, e.g. an auth token */
+    headers?: Record<string, string>
+    /** Send cookies to another origin */
+    withCredentials?: boolean
+}
+
+/**
+ * Uploader over XMLHttpRequest, which — unlike fetch — reports upload progress.
+ * Resolves with the parsed JSON response (or text) and rejects on non-2xx statuses.
+ */
+export function createXhrUploader({
+    url,
+    method = 'POST',
+    fieldName = 'file',
+    headers = {},
+    withCredentials = false,
+}: XhrUploaderOptions): FileUploader<unknown> {
+    return (file, onProgress, signal) =>
+        new Promise((resolve, reject) => {
+            const xhr = new XMLHttpRequest()
+            xhr.open(method, url)
+            xhr.withCredentials = withCredentials
+            for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value)
+
+            xhr.upload.onprogress = e => {
+                if (e.lengthComputable) onProgress(e.loaded / e.total)
+            }
+            xhr.onload = () => {
+                if (xhr.status < 200 || xhr.status >= 300) {
+                    reject(new Error(`Upload failed with status ${xhr.status}`))
+                    return
+                }
+                onProgress(1)
+                try {
+                    resolve(xhr.responseText ? JSON.parse(xhr.responseText) : null)
+                } catch {
+                    resolve(xhr.responseText)
+                }
+            }
+            xhr.onerror = () => reject(new Error('Network error'))
+            xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'))
+
+            if (signal.aborted) {
+                reject(new DOMException('Upload aborted', 'AbortError'))
+                return
+            }
+            signal.addEventListener('abort', () => xhr.abort(), { once: true })
+
+            if (fieldName === null) {
+                xhr.send(file)
+            } else {
+                const body = new FormData()
+                body.append(fieldName, file, file.name)
+                xhr.send(body)
+            }
+        })
+}
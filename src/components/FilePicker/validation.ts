@@ -0,0 +1,262 @@
+import { matchesAccept } from './accept'
+
+export interface FileRules {
+    /** Minimum size in bytes */
+    minSize?: number
+    /** Maximum size in bytes */
+    maxSize?: number
+    /** Read the file's magic bytes and reject files whose content does not match their type */
+    sniffType?: boolean
+    /** Image limits in pixels; files that fail to decode as images are rejected */
+    minWidth?: number
+    maxWidth?: number
+    minHeight?: number
+    maxHeight?: number
+    /** Required width / height of images (e.g. 16 / 9) */
+    aspectRatio?: number
+    /** Allowed relative deviation from `aspectRatio` (0.01 by default) */
+    aspectTolerance?: number
+}
+
+export type FileRejectCode =
+    | 'type'
+    | 'content-type'
+    | 'unreadable'
+    | 'too-small'
+    | 'too-large'
+    | 'dimensions'
+    | 'aspect-ratio'
+    | 'too-many'
+
+export interface FileRejection {
+    file: File
+    code: FileRejectCode
+    /** Human-readable reason, as shown in the field */
+    message: string
+    /** What the file has, e.g. its size in bytes, "300×200" or a sniffed MIME type */
+    actual?: number | string
+    /** The limit it broke */
+    expected?: number | string
+}
+
+/* first bytes of common formats; `at` is the offset of the signature */
+const SIGNATURES: { type: string; bytes: number[]; at?: number }[] = [
+    { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { type: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], at: 8 },
+    { type: 'image/bmp', bytes: [0x42, 0x4d] },
+    { type: 'audio/wav', bytes: [0x57, 0x41, 0x56, 0x45], at: 8 },
+    { type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+    { type: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+    { type: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+    { type: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+    { type: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], at: 4 },
+    { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+    { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+]
+
+const ISO_BRANDS: Record<string, string> = {
+    avif: 'image/avif',
+    avis: 'image/avif',
+    heic: 'image/heic',
+    heix: 'image/heic',
+    mif1: 'image/heic',
+    'M4A ': 'audio/mp4',
+    'qt  ': 'video/quicktime',
+}
+
+/*
+ * A container holds several formats and its signature only names the container —
+ * .mkv sniffs as webm, an .m4a with an "isom" brand as mp4 — so types are compared by family
+ */
+const CONTAINER_FAMILIES: string[][] = [
+    /* EBML */
+    ['video/webm', 'audio/webm', 'video/x-matroska', 'audio/x-matroska'],
+    /* ISO base media */
+    ['video/mp4', 'audio/mp4', 'video/quicktime', 'video/x-m4v', 'video/3gpp', 'audio/3gpp'],
+    /* Ogg */
+    ['audio/ogg', 'video/ogg', 'application/ogg', 'audio/opus'],
+    ['image/heic', 'image/heif'],
+]
+
+const sameFormat = (a: string, b: string) => a === b || CONTAINER_FAMILIES.some(f => f.includes(a) && f.includes(b))
+
+const EXTENSION_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp',
+    avif: 'image/avif',
+    svg: 'image/svg+xml',
+    wav: 'audio/wav',
+    mp3: 'audio/mpeg',
+    ogg: 'audio/ogg',
+    flac: 'audio/flac',
+    webm: 'video/webm',
+    mkv: 'video/x-matroska',
+    ogv: 'video/ogg',
+    opus: 'audio/ogg',
+    mp4: 'video/mp4',
+    m4a: 'audio/mp4',
+    mov: 'video/quicktime',
+    heic: 'image/heic',
+    pdf: 'application/pdf',
+    zip: 'application/zip',
+}
+
+/* browsers and OSes disagree on a few names for the same format */
+const ALIASES: Record<string, string> = {
+    'image/jpg': 'image/jpeg',
+    'image/x-ms-bmp': 'image/bmp',
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-flac': 'audio/flac',
+    'audio/x-m4a': 'audio/mp4',
+    'application/x-zip-compressed': 'application/zip',
+}
+
+const canonical = (type: string) => ALIASES[type] ?? type
+
+/** The type a file claims to be — its MIME type, or one derived from the extension */
+export function declaredType(file: File): string {
+    if (file.type) return canonical(file.type.toLowerCase())
+    const ext = file.name.toLowerCase().split('.').pop() ?? ''
+    return EXTENSION_TYPES[ext] ?? ''
+}
+
+/** Detects the real MIME type from the first bytes, or null for unknown formats */
+export async function sniffType(file: File): Promise<string | null> {
+    const head = new Uint8Array(await file.slice(0, 512).arrayBuffer())
+    const hit = SIGNATURES.find(sig => sig.bytes.every((b, i) => head[(sig.at ?? 0) + i] === b))
+    if (hit) {
+        /* "ftyp" is shared by the whole ISO family; the brand tells avif/heic/m4a/mov from mp4 */
+        if (hit.type === 'video/mp4') return ISO_BRANDS[String.fromCharCode(...head.slice(8, 12))] ?? hit.type
+        return hit.type
+    }
+    /* MPEG audio frames without an ID3 tag start with an 11-bit sync word; layer bits 00 would be AAC */
+    if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0 && (head[1] & 0x06) !== 0) return 'audio/mpeg'
+    const text = new TextDecoder().decode(head).trimStart().toLowerCase()
+    if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) return 'image/svg+xml'
+    return null
+}
+
+/** Natural size of an image file, or null when it cannot be decoded */
+export function imageSize(file: File): Promise<{ width: number; height: number } | null> {
+    return new Promise(resolve => {
+        const url = URL.createObjectURL(file)
+        const img = new Image()
+        img.onload = () => {
+            URL.revokeObjectURL(url)
+            resolve({ width: img.naturalWidth, height: img.naturalHeight })
+        }
+        img.onerror = () => {
+            URL.revokeObjectURL(url)
+            resolve(null)
+        }
+        img.src = url
+    })
+}
+
+export function formatSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`
+    const units = ['KB', 'MB', 'GB']
+    let n = bytes / 1024
+    let i = 0
+    while (n >= 1024 && i < units.length - 1) {
+        n /= 1024
+        i++
+    }
+    return `${n >= 10 ? Math.round(n) : Math.round(n * 10) / 10} ${units[i]}`
+}
+
+const hasImageRules = (r: FileRules) =>
+    r.minWidth !== undefined ||
+    r.maxWidth !== undefined ||
+    r.minHeight !== undefined ||
+    r.maxHeight !== undefined ||
+    r.aspectRatio !== undefined
+
+/**
+ * Checks a file against `accept` and the rules; resolves the first broken rule
+ * (without `message`, which the picker fills in) or null when the file passes.
+ */
+export async function validateFile(
+    file: File,
+    accept: string,
+    rules: FileRules,
+): Promise<Omit<FileRejection, 'message'> | null> {
+    if (!matchesAccept(file, accept)) return { file, code: 'type', actual: declaredType(file) || file.name, expected: accept }
+    if (rules.minSize !== undefined && file.size < rules.minSize) {
+        return { file, code: 'too-small', actual: file.size, expected: rules.minSize }
+    }
+    if (rules.maxSize !== undefined && file.size > rules.maxSize) {
+        return { file, code: 'too-large', actual: file.size, expected: rules.maxSize }
+    }
+
+    const declared = declaredType(file)
+    if (rules.sniffType) {
+        const real = await sniffType(file)
+        const known = (type: string) =>
+            SIGNATURES.some(s => sameFormat(s.type, type)) ||
+            Object.values(ISO_BRANDS).some(t => sameFormat(t, type)) ||
+            type === 'image/svg+xml'
+        /* a known format must carry its own signature; unknown formats (text, JSON…) cannot be checked */
+        const mismatch = real ? declared !== '' && !sameFormat(declared, real) : known(declared)
+        /* without a declared type only the sniffed one can be held against `accept` */
+        if (mismatch || (real && !declared && !matchesAccept(new File([], file.name, { type: real }), accept))) {
+            return { file, code: 'content-type', actual: real ?? 'unknown', expected: declared || accept }
+        }
+    }
+
+    if (hasImageRules(rules) && (declared.startsWith('image/') || /^image\//.test(file.type))) {
+        const size = await imageSize(file)
+        if (!size) return { file, code: 'content-type', actual: 'unknown', expected: declared }
+        const { width, height } = size
+        const dims = `${width}×${height}`
+        if (
+            (rules.minWidth !== undefined && width < rules.minWidth) ||
+            (rules.minHeight !== undefined && height < rules.minHeight)
+        ) {
+            return { file, code: 'dimensions', actual: dims, expected: `≥ ${rules.minWidth ?? 0}×${rules.minHeight ?? 0}` }
+        }
+        if (
+            (rules.maxWidth !== undefined && width > rules.maxWidth) ||
+            (rules.maxHeight !== undefined && height > rules.maxHeight)
+        ) {
+            return { file, code: 'dimensions', actual: dims, expected: `≤ ${rules.maxWidth ?? '∞'}×${rules.maxHeight ?? '∞'}` }
+        }
+        if (rules.aspectRatio !== undefined && height > 0) {
+            const deviation = Math.abs(width / height - rules.aspectRatio) / rules.aspectRatio
+            if (deviation > (rules.aspectTolerance ?? 0.01)) {
+                return { file, code: 'aspect-ratio', actual: dims, expected: Math.round(rules.aspectRatio * 1000) / 1000 }
+            }
+        }
+    }
+    return null
+}
+
+/** Default English message for a rejection */
+export function rejectionMessage(r: Omit<FileRejection, 'message'>): string {
+    switch (r.code) {
+        case 'type':
+            return 'This file type is not supported'
+        case 'content-type':
+            return `File content does not match its type (${r.actual})`
+        case 'unreadable':
+            return 'File could not be read'
+        case 'too-small':
+            return `File is smaller than ${formatSize(Number(r.expected))}`
+        case 'too-large':
+            return `File is larger than ${formatSize(Number(r.expected))}`
+        case 'dimensions':
+            return `Image is ${r.actual}, expected ${r.expected}`
+        case 'aspect-ratio':
+            return `Image is ${r.actual}, expected aspect ratio ${r.expected}`
+        case 'too-many':
+            return 'File limit reached'
+    }
+}
@@ -0,0 +1,165 @@
+import { cl, formatColor, parseColor, type RGBA } from '../ColorPicker/color'
+
+export type GradientType = 'linear' | 'radial'
+
+export interface GradientStop {
+    /** Any CSS color */
+    color: string
+    /** Position along the gradient line, 0…100 (%) */
+    position: number
+}
+
+export interface Gradient {
+    type: GradientType
+    /** Direction of a linear gradient in degrees (0 = to top, 90 = to right) */
+    angle: number
+    /**
+     * Shape, size and position of a radial gradient as written, e.g. `ellipse at top`;
+     * kept verbatim so editing stops does not change them. `circle` when omitted, `''` for none
+     */
+    radial?: string
+    stops: GradientStop[]
+}
+
+const SIDES: Record<string, number> = {
+    'to top': 0,
+    'to top right': 45,
+    'to right top': 45,
+    'to right': 90,
+    'to bottom right': 135,
+    'to right bottom': 135,
+    'to bottom': 180,
+    'to bottom left': 225,
+    'to left bottom': 225,
+    'to left': 270,
+    'to top left': 315,
+    'to left top': 315,
+}
+
+/* splits on commas that are not inside parentheses */
+const splitTopLevel = (input: string) => {
+    const parts: string[] = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i]
+        if (ch === '(') depth++
+        else if (ch === ')') depth--
+        else if (ch === ',' && depth === 0) {
+            parts.push(input.slice(start, i).trim())
+            start = i + 1
+        }
+    }
+    parts.push(input.slice(start).trim())
+    return parts.filter(Boolean)
+}
+
+const parseAngle = (token: string): number | null => {
+    const t = token.trim().toLowerCase().replace(/\s+/g, ' ')
+    if (t in SIDES) return SIDES[t]
+    const m = /^(-?[\d.]+)(deg|turn|rad|grad)$/.exec(t)
+    if (!m) return null
+    const n = parseFloat(m[1])
+    const deg = m[2] === 'turn' ? n * 360 : m[2] === 'rad' ? (n * 180) / Math.PI : m[2] === 'grad' ? n * 0.9 : n
+    return ((deg % 360) + 360) % 360
+}
+
+/* "red", "red 20%", "rgb(0 0 0 / 50%) 10% 40%" → color + up to two positions */
+const parseStop = (token: string): { color: string; positions: number[] } | null => {
+    const positions: number[] = []
+    let rest = token.trim()
+    for (;;) {
+        const m = /\s+(-?[\d.]+)%$/.exec(rest)
+        if (!m || positions.length === 2) break
+        positions.unshift(parseFloat(m[1]))
+        rest = rest.slice(0, m.index).trim()
+    }
+    if (!parseColor(rest)) return null
+    return { color: rest, positions }
+}
+
+/** Parses a CSS linear-gradient() / radial-gradient() string, or returns null */
+export function parseGradient(input: string): Gradient | null {
+    const m = /^(linear|radial)-gradient\((.*)\)$/is.exec((input || '').trim())
+    if (!m) return null
+    const type = m[1].toLowerCase() as GradientType
+    const args = splitTopLevel(m[2])
+
+    let angle = 180
+    let radial: string | undefined
+    if (type === 'radial') radial = ''
+    if (args.length && !parseStop(args[0])) {
+        const head = args.shift() as string
+        if (type === 'linear') {
+            const parsed = parseAngle(head)
+            if (parsed === null) return null
+            angle = parsed
+        } else {
+            radial = head.replace(/\s+/g, ' ')
+        }
+    }
+
+    const raw: { color: string; position: number | null }[] = []
+    for (const arg of args) {
+        const stop = parseStop(arg)
+        if (!stop) return null
+        if (stop.positions.length === 0) raw.push({ color: stop.color, position: null })
+        for (const p of stop.positions) raw.push({ color: stop.color, position: p })
+    }
+    if (raw.length < 2) return null
+
+    /* missing positions: ends default to 0/100, the rest are spread evenly between known neighbours */
+    if (raw[0].position === null) raw[0].position = 0
+    if (raw[raw.length - 1].position === null) raw[raw.length - 1].position = 100
+    for (let i = 1; i < raw.length; i++) {
+        if (raw[i].position !== null) continue
+        let j = i
+        while (raw[j].position === null) j++
+        const from = raw[i - 1].position as number
+        const to = raw[j].position as number
+        for (let k = i; k < j; k++) raw[k].position = from + ((to - from) * (k - i + 1)) / (j - i + 1)
+    }
+
+    return {
+        type,
+        angle,
+        radial,
+        stops: raw.map(s => ({ color: s.color, position: cl(s.position as number, 0, 100) })),
+    }
+}
+
+const round = (n: number) => Math.round(n * 10) / 10
+
+/** Serializes a gradient to CSS; stops are written in position order */
+export function formatGradient({ type, angle, radial = 'circle', stops }: Gradient): string {
+    const list = [...stops]
+        .sort((a, b) => a.position - b.position)
+        .map(s => `${s.color} ${round(s.position)}%`)
+        .join(', ')
+    if (type === 'radial') return `radial-gradient(${radial ? `${radial}, ` : ''}${list})`
+    return `linear-gradient(${round(angle)}deg, ${list})`
+}
+
+/** Color of the gradient at `position`, used to seed a newly added stop */
+export function colorAt(stops: GradientStop[], position: number, withAlpha = true): string {
+    const sorted = [...stops].sort((a, b) => a.position - b.position)
+    const parsed = sorted.map(s => ({ position: s.position, rgba: parseColor(s.color) }))
+        .filter((s): s is { position: number; rgba: RGBA } => s.rgba !== null)
+    if (!parsed.length) return '#FFFFFF'
+    const after = parsed.findIndex(s => s.position >= position)
+    if (after === -1) return formatColor(parsed[parsed.length - 1].rgba, 'hex', withAlpha)
+    if (after === 0) return formatColor(parsed[0].rgba, 'hex', withAlpha)
+    const a = parsed[after - 1], b = parsed[after]
+    const t = b.position === a.position ? 0 : (position - a.position) / (b.position - a.position)
+    const mix = (x: number, y: number) => x + (y - x) * t
+    return formatColor(
+        {
+            r: Math.round(mix(a.rgba.r, b.rgba.r)),
+            g: Math.round(mix(a.rgba.g, b.rgba.g)),
+            b: Math.round(mix(a.rgba.b, b.rgba.b)),
+            a: mix(a.rgba.a, b.rgba.a),
+        },
+        'hex',
+        withAlpha,
+    )
+}
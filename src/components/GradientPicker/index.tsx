@@ -0,0 +1,317 @@
+import { useEffect, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { Tooltip } from '../Tooltip'
+import { ColorPicker } from '../ColorPicker'
+import { Slider } from '../Slider'
+import { Button } from '../Button'
+import { colorAt, formatGradient, parseGradient, type Gradient, type GradientStop, type GradientType } from './gradient'
+import styles from './gradientPicker.module.scss'
+
+export type { Gradient, GradientStop, GradientType } from './gradient'
+export { parseGradient, formatGradient } from './gradient'
+
+export interface GradientPickerProps {
+    /** Current gradient as a CSS string — "linear-gradient(…)" or "radial-gradient(…)" */
+    value: string
+    /** Called with the new CSS gradient string */
+    onChange?: (value: string) => void
+    /** Default value — shows reset link when value differs */
+    defaultValue?: string
+    /** Label */
+    label?: string
+    /** Description tooltip */
+    description?: string
+    /** Enable alpha channel on stop colors */
+    withAlpha?: boolean
+    /** Preset palette offered in the stop color panel */
+    swatches?: string[]
+    /** Disable interaction */
+    disabled?: boolean
+    /** Custom reset text */
+    resetText?: string
+    /** Text of the linear type button */
+    linearText?: string
+    /** Text of the radial type button */
+    radialText?: string
+    /** Label of the angle slider */
+    angleText?: string
+    /** Label of the selected stop's color */
+    stopColorText?: string
+    /** Label of the selected stop's position field */
+    stopPositionText?: string
+    /** Text of the delete stop button */
+    deleteStopText?: string
+    /** Additional className */
+    className?: string
+}
+
+type EditorStop = GradientStop & { id: number }
+
+/* pulling a stop this far off the bar removes it on release */
+const REMOVE_DISTANCE = 40
+
+const FALLBACK: Gradient = {
+    type: 'linear',
+    angle: 90,
+    stops: [
+        { color: '#000000FF', position: 0 },
+        { color: '#FFFFFFFF', position: 100 },
+    ],
+}
+
+let nextId = 1
+const withIds = (stops: GradientStop[]): EditorStop[] => stops.map(s => ({ ...s, id: nextId++ }))
+
+const normalize = (css: string) => {
+    const g = parseGradient(css)
+    return g ? formatGradient(g) : css.trim()
+}
+
+export function GradientPicker({
+    value,
+    onChange,
+    defaultValue,
+    label,
+    description,
+    withAlpha = true,
+    swatches,
+    disabled = false,
+    resetText = 'Reset',
+    linearText = 'Linear',
+    radialText = 'Radial',
+    angleText = 'Angle',
+    stopColorText = 'Stop color',
+    stopPositionText = 'Position',
+    deleteStopText = 'Delete stop',
+    className,
+}: GradientPickerProps) {
+    const [type, setType] = useState<GradientType>(() => (parseGradient(value) ?? FALLBACK).type)
+    const [angle, setAngle] = useState(() => (parseGradient(value) ?? FALLBACK).angle)
+    const [radial, setRadial] = useState(() => (parseGradient(value) ?? FALLBACK).radial)
+    const [stops, setStops] = useState<EditorStop[]>(() => withIds((parseGradient(value) ?? FALLBACK).stops))
+    const [selectedId, setSelectedId] = useState<number | null>(null)
+    const [dragId, setDragId] = useState<number | null>(null)
+    const [removing, setRemoving] = useState(false)
+    const [positionText, setPositionText] = useState<string | null>(null)
+    const trackRef = useRef<HTMLDivElement>(null)
+
+    const canReset = defaultValue !== undefined && normalize(value) !== normalize(defaultValue)
+    const selected = stops.find(s => s.id === selectedId) ?? stops[0]
+    const css = formatGradient({ type, angle, radial, stops })
+
+    /* sync external value; ids are only regenerated when the gradient really changed */
+    useEffect(() => {
+        const parsed = parseGradient(value)
+        if (!parsed || formatGradient(parsed) === css) return
+        setType(parsed.type)
+        setAngle(parsed.angle)
+        setRadial(parsed.radial)
+        setStops(withIds(parsed.stops))
+    }, [value])
+
+    /* every edit goes through here, so a disabled picker cannot change by keyboard either */
+    const emit = (next: { type?: GradientType; angle?: number; stops?: EditorStop[] }) => {
+        if (disabled) return
+        const g = { type: next.type ?? type, angle: next.angle ?? angle, radial, stops: next.stops ?? stops }
+        if (next.type !== undefined) setType(next.type)
+        if (next.angle !== undefined) setAngle(next.angle)
+        if (next.stops !== undefined) setStops(next.stops)
+        onChange?.(formatGradient(g))
+    }
+
+    const updateStop = (id: number, patch: Partial<GradientStop>) => {
+        if (disabled) return
+        emit({ stops: stops.map(s => (s.id === id ? { ...s, ...patch } : s)) })
+    }
+
+    const removeStop = (id: number) => {
+        if (disabled || stops.length <= 2) return
+        const rest = stops.filter(s => s.id !== id)
+        setSelectedId(rest[0].id)
+        emit({ stops: rest })
+    }
+
+    const positionAt = (clientX: number) => {
+        const rect = trackRef.current?.getBoundingClientRect()
+        if (!rect || !rect.width) return 0
+        return Math.round(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * 1000) / 10
+    }
+
+    /* click on empty track adds a stop with the color already shown there */
+    const handleTrackPointerDown = (e: React.PointerEvent) => {
+        if (disabled || e.target !== e.currentTarget) return
+        const position = positionAt(e.clientX)
+        const stop = { id: nextId++, position, color: colorAt(stops, position, withAlpha) }
+        setSelectedId(stop.id)
+        emit({ stops: [...stops, stop] })
+    }
+
+    const handleStopPointerDown = (e: React.PointerEvent, id: number) => {
+        if (disabled) return
+        e.preventDefault()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        ;(e.currentTarget as HTMLElement).focus()
+        setSelectedId(id)
+        setDragId(id)
+    }
+
+    const handleStopPointerMove = (e: React.PointerEvent, id: number) => {
+        if (dragId !== id) return
+        const rect = trackRef.current?.getBoundingClientRect()
+        const away = !!rect && stops.length > 2 && (e.clientY < rect.top - REMOVE_DISTANCE || e.clientY > rect.bottom + REMOVE_DISTANCE)
+        setRemoving(away)
+        if (!away) updateStop(id, { position: positionAt(e.clientX) })
+    }
+
+    const handleStopPointerUp = (id: number) => {
+        if (dragId !== id) return
+        if (removing) removeStop(id)
+        setDragId(null)
+        setRemoving(false)
+    }
+
+    const handleStopKeyDown = (e: React.KeyboardEvent, stop: EditorStop) => {
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault()
+            removeStop(stop.id)
+            return
+        }
+        const delta = e.key === 'ArrowRight' || e.key === 'ArrowUp' ? 1 : e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -1 : 0
+        if (!delta) return
+        e.preventDefault()
+        updateStop(stop.id, { position: Math.min(100, Math.max(0, stop.position + delta * (e.shiftKey ? 10 : 1))) })
+    }
+
+    const applyPositionText = () => {
+        if (positionText === null) return
+        const n = Number(positionText.replace(',', '.'))
+        if (Number.isFinite(n)) updateStop(selected.id, { position: Math.min(100, Math.max(0, n)) })
+        setPositionText(null)
+    }
+
+    const handleReset = (e: React.MouseEvent) => {
+        e.stopPropagation()
+        if (defaultValue) onChange?.(defaultValue)
+    }
+
+    const trackGradient = formatGradient({ type: 'linear', angle: 90, stops })
+
+    return (
+        <div className={clsx(styles.wrapper, disabled && styles.disabled, className)}>
+            {(label || canReset) && (
+                <div className={styles.labelRow}>
+                    {label && (
+                        <div className={styles.label}>
+                            {label}
+                            {description && (
+                                <Tooltip content={description} position="right">
+                                    <span className={styles.descDot}>?</span>
+                                </Tooltip>
+                            )}
+                        </div>
+                    )}
+                    {canReset && (
+                        <button type="button" className={styles.resetBtn} onClick={handleReset}>
+                            {resetText}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <div className={styles.header}>
+                <div className={styles.preview}>
+                    <div className={styles.previewFill} style={{ background: css }} />
+                </div>
+                <div className={styles.types} role="radiogroup">
+                    {([['linear', linearText], ['radial', radialText]] as const).map(([id, text]) => (
+                        <button
+                            key={id}
+                            type="button"
+                            role="radio"
+                            aria-checked={type === id}
+                            className={clsx(styles.typeBtn, type === id && styles.typeBtnActive)}
+                            disabled={disabled}
+                            onClick={() => emit({ type: id })}
+                        >
+                            {text}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {type === 'linear' && (
+                <Slider
+                    label={angleText}
+                    min={0}
+                    max={360}
+                    step={1}
+                    unit="°"
+                    value={Math.round(angle)}
+                    onChange={v => emit({ angle: v })}
+                    disabled={disabled}
+                />
+            )}
+
+            {/* Stop bar */}
+            <div className={styles.trackWrap}>
+                <div ref={trackRef} className={styles.track} onPointerDown={handleTrackPointerDown}>
+                    <div className={styles.trackFill} style={{ background: trackGradient }} />
+                    {stops.map(stop => (
+                        <button
+                            key={stop.id}
+                            type="button"
+                            className={clsx(
+                                styles.stop,
+                                stop.id === selected.id && styles.stopActive,
+                                stop.id === dragId && removing && styles.stopRemoving,
+                            )}
+                            style={{ left: `${stop.position}%` }}
+                            disabled={disabled}
+                            aria-label={`${stop.color} ${Math.round(stop.position)}%`}
+                            onPointerDown={e => handleStopPointerDown(e, stop.id)}
+                            onPointerMove={e => handleStopPointerMove(e, stop.id)}
+                            onPointerUp={() => handleStopPointerUp(stop.id)}
+                            onPointerCancel={() => { setDragId(null); setRemoving(false) }}
+                            onFocus={() => setSelectedId(stop.id)}
+                            onKeyDown={e => handleStopKeyDown(e, stop)}
+                        >
+                            <span className={styles.stopFill} style={{ background: stop.color }} />
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Selected stop */}
+            <div className={styles.stopEditor}>
+                <ColorPicker
+                    key={selected.id}
+                    className={styles.stopColor}
+                    label={stopColorText}
+                    value={selected.color}
+                    onChange={color => updateStop(selected.id, { color })}
+                    withAlpha={withAlpha}
+                    swatches={swatches}
+                    disabled={disabled}
+                />
+                <label className={styles.positionBox}>
+                    <span className={styles.positionLabel}>{stopPositionText}</span>
+                    <span className={styles.positionField}>
+                        <input
+                            className={styles.positionInput}
+                            inputMode="decimal"
+                            disabled={disabled}
+                            value={positionText ?? String(Math.round(selected.position * 10) / 10)}
+                            onChange={e => setPositionText(e.target.value)}
+                            onBlur={applyPositionText}
+                            onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                        />
+                        <span className={styles.positionSuffix}>%</span>
+                    </span>
+                </label>
+                <Button variant="ghost" size="sm" disabled={disabled || stops.length <= 2} onClick={() => removeStop(selected.id)}>
+                    {deleteStopText}
+                </Button>
+            </div>
+        </div>
+    )
+}
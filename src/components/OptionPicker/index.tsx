@@ -1,5 +1,7 @@
 import React, { useCallback, useEffect, useId, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
+import { useAsyncOptions, type LoadOptions } from '../Select/useAsyncOptions'
+import { computePanelPlacement, naturalPanelHeight, type PanelPlacement } from '../Select/placement'
 import styles from './optionPicker.module.scss'
 
 export type OptionPickerOption = {
@@ -10,7 +12,18 @@ export type OptionPickerOption = {
 }
 
 export type OptionPickerProps = {
-    options: OptionPickerOption[]
+    /** Options list. With `loadOptions` — already known options, used to show the selected label */
+    options?: OptionPickerOption[]
+    /** Load options from a server when the menu opens */
+    loadOptions?: LoadOptions<OptionPickerOption>
+    /** Text shown while options are loading */
+    loadingText?: React.ReactNode
+    /** Text shown when there are no options */
+    noOptionsText?: React.ReactNode
+    /** Text shown when loading options failed */
+    loadErrorText?: React.ReactNode
+    /** Text of the retry button after a failed load */
+    retryText?: string
     value?: string | number | null
     onChange?: (value: string) => void
     /** Default value — shows reset link when value differs */
@@ -24,14 +37,34 @@ export type OptionPickerProps = {
     optionClassName?: string
     wrapperClassName?: string
     showChevron?: boolean
-    /** Open menu above the trigger */
-    menuPlacement?: 'top' | 'bottom'
+    /** Where to open the menu; `auto` flips it above the trigger when there is no room below */
+    menuPlacement?: PanelPlacement
     ariaLabel?: string
     onTriggerMouseDown?: (event: React.MouseEvent<HTMLButtonElement>) => void
 }
 
+const MENU_MAX_HEIGHT = 320
+const TYPEAHEAD_RESET_MS = 500
+
+const isSelectable = (option: OptionPickerOption) => !option.disabled && option.kind !== 'group'
+
+/** Next selectable index from `from` (inclusive) in direction `dir`, wrapping around the list */
+const findSelectable = (options: OptionPickerOption[], from: number, dir: 1 | -1) => {
+    const n = options.length
+    for (let step = 0; step < n; step++) {
+        const i = (((from + dir * step) % n) + n) % n
+        if (isSelectable(options[i])) return i
+    }
+    return -1
+}
+
 export function OptionPicker({
-    options,
+    options: staticOptions = [],
+    loadOptions,
+    loadingText = 'Loading…',
+    noOptionsText = 'Nothing found',
+    loadErrorText = 'Failed to load options',
+    retryText = 'Retry',
     value = null,
     onChange,
     defaultValue,
@@ -43,7 +76,7 @@ export function OptionPicker({
     optionClassName,
     wrapperClassName,
     showChevron = true,
-    menuPlacement = 'bottom',
+    menuPlacement = 'auto',
     ariaLabel,
     onTriggerMouseDown,
 }: OptionPickerProps) {
@@ -51,9 +84,15 @@ export function OptionPicker({
     const [mounted, setMounted] = useState(false)
     const [closing, setClosing] = useState(false)
     const [menuStyle, setMenuStyle] = useState<React.CSSProperties>({})
+    const [menuSide, setMenuSide] = useState<'top' | 'bottom'>('bottom')
+    const [activeIndex, setActiveIndex] = useState(-1)
+    const openToLastRef = useRef(false)
+    const typeaheadRef = useRef<{ query: string; timer: ReturnType<typeof setTimeout> | null }>({ query: '', timer: null })
     const wrapperRef = useRef<HTMLDivElement>(null)
     const triggerRef = useRef<HTMLButtonElement>(null)
     const menuRef = useRef<HTMLDivElement>(null)
+    const wasOpenRef = useRef(false)
+    const pendingPickRef = useRef(false)
     const listId = useId()
     const triggerId = useId()
 
@@ -61,28 +100,23 @@ export function OptionPicker({
         setMounted(true)
     }, [])
 
+    const remote = useAsyncOptions({ loadOptions, query: '', active: open && !closing })
+    const options = loadOptions ? remote.options : staticOptions
+    const loadingFirstPage = !!loadOptions && (remote.status === 'idle' || remote.status === 'loading')
+    const knownOptions = loadOptions ? [...staticOptions, ...remote.known] : staticOptions
+
     const stringValue = value === null || value === undefined ? null : String(value)
     const selectedOption =
-        stringValue !== null ? options.find(option => String(option.value) === stringValue) : undefined
+        stringValue !== null ? knownOptions.find(option => String(option.value) === stringValue) : undefined
     const displayLabel = selectedOption?.label ?? placeholder ?? ''
 
     const updatePosition = useCallback(() => {
         const rect = triggerRef.current?.getBoundingClientRect()
         if (!rect) return
-        const gap = 6
-        if (menuPlacement === 'top') {
-            setMenuStyle({
-                bottom: typeof window !== 'undefined' ? window.innerHeight - rect.top + gap : rect.bottom + gap,
-                left: rect.left,
-                minWidth: rect.width,
-            })
-        } else {
-            setMenuStyle({
-                top: rect.bottom + gap,
-                left: rect.left,
-                minWidth: rect.width,
-            })
-        }
+        const naturalHeight = menuRef.current ? naturalPanelHeight(menuRef.current) : MENU_MAX_HEIGHT
+        const { style, side } = computePanelPlacement(rect, menuPlacement, naturalHeight, MENU_MAX_HEIGHT)
+        setMenuStyle(style)
+        setMenuSide(side)
     }, [menuPlacement])
 
     const closeMenu = useCallback(() => {
@@ -128,19 +162,58 @@ export function OptionPicker({
         }
     }, [closeMenu, open, updatePosition])
 
+    /* menu height changes as options load */
+    useEffect(() => {
+        if (open) updatePosition()
+    }, [open, options.length, remote.status, remote.loadingMore, updatePosition])
+
     useEffect(() => {
         if (disabled && open) closeMenu()
     }, [closeMenu, disabled, open])
 
+    /* focus stays on the listbox; the active option is announced via aria-activedescendant */
     useEffect(() => {
-        if (!open) return
-        const buttons = Array.from(
-            menuRef.current?.querySelectorAll<HTMLButtonElement>('[data-option-picker-option]') ?? [],
-        )
-        const selectable = buttons.filter(btn => !btn.disabled)
-        const selected = selectable.find(btn => btn.dataset.value === stringValue)
-        ;(selected ?? selectable[0])?.focus()
-    }, [open, stringValue, options])
+        if (!open) {
+            wasOpenRef.current = false
+            return
+        }
+        if (!wasOpenRef.current) {
+            wasOpenRef.current = true
+            pendingPickRef.current = true
+            menuRef.current?.focus()
+        }
+        /* the starting option is picked once there is a list to pick from — remote ones arrive later */
+        if (pendingPickRef.current && !loadingFirstPage) {
+            const selectedIndex = options.findIndex(o => String(o.value) === stringValue && isSelectable(o))
+            const next = openToLastRef.current
+                ? findSelectable(options, options.length - 1, -1)
+                : selectedIndex >= 0 ? selectedIndex : findSelectable(options, 0, 1)
+            setActiveIndex(next)
+            if (next >= 0) {
+                pendingPickRef.current = false
+                openToLastRef.current = false
+            }
+            return
+        }
+        /* options changed while open (next page loaded, new array from the parent) — keep the position */
+        setActiveIndex(index => Math.min(index, options.length - 1))
+    }, [open, stringValue, options, loadingFirstPage])
+
+    useEffect(() => {
+        if (!open || activeIndex < 0) return
+        menuRef.current
+            ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+            ?.scrollIntoView({ block: 'nearest' })
+    }, [open, activeIndex])
+
+    useEffect(() => {
+        const typeahead = typeaheadRef.current
+        return () => {
+            if (typeahead.timer) clearTimeout(typeahead.timer)
+        }
+    }, [])
+
+    const optionId = (index: number) => `${listId}-option-${index}`
 
     const handleTriggerClick = () => {
         if (disabled) return
@@ -153,12 +226,83 @@ export function OptionPicker({
 
     const handleTriggerKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
         if (disabled) return
-        if (event.key === 'ArrowDown' || event.key === 'Enter' || event.key === ' ') {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp' || event.key === 'Enter' || event.key === ' ') {
             event.preventDefault()
+            openToLastRef.current = event.key === 'ArrowUp'
             setOpen(true)
         }
     }
 
+    const optionText = (index: number) => {
+        const label = options[index]?.label
+        if (typeof label === 'string' || typeof label === 'number') return String(label)
+        return menuRef.current?.querySelector(`[data-index="${index}"]`)?.textContent ?? ''
+    }
+
+    /* Repeating one letter cycles through options starting with it; typing a word jumps to the match */
+    const handleTypeahead = (char: string) => {
+        const typeahead = typeaheadRef.current
+        if (typeahead.timer) clearTimeout(typeahead.timer)
+        typeahead.query += char.toLowerCase()
+        typeahead.timer = setTimeout(() => {
+            typeahead.query = ''
+            typeahead.timer = null
+        }, TYPEAHEAD_RESET_MS)
+
+        const { query } = typeahead
+        const cycling = query.split('').every(c => c === query[0])
+        const needle = cycling ? query[0] : query
+        const start = cycling ? activeIndex + 1 : Math.max(activeIndex, 0)
+        const n = options.length
+        for (let step = 0; step < n; step++) {
+            const i = (start + step) % n
+            if (isSelectable(options[i]) && optionText(i).trim().toLowerCase().startsWith(needle)) {
+                setActiveIndex(i)
+                return
+            }
+        }
+    }
+
+    const handleMenuKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const last = options.length - 1
+        switch (event.key) {
+            case 'ArrowDown':
+                event.preventDefault()
+                setActiveIndex(findSelectable(options, activeIndex + 1, 1))
+                return
+            case 'ArrowUp':
+                event.preventDefault()
+                setActiveIndex(findSelectable(options, activeIndex < 0 ? last : activeIndex - 1, -1))
+                return
+            case 'Home':
+                event.preventDefault()
+                setActiveIndex(findSelectable(options, 0, 1))
+                return
+            case 'End':
+                event.preventDefault()
+                setActiveIndex(findSelectable(options, last, -1))
+                return
+            case 'Enter':
+                event.preventDefault()
+                if (options[activeIndex]) handleOptionClick(options[activeIndex])
+                return
+            case 'Tab':
+                /* the menu is portaled to the end of body: hand focus back so the native Tab continues from the trigger */
+                closeMenu()
+                triggerRef.current?.focus()
+                return
+        }
+        if (event.key === ' ' && !typeaheadRef.current.query) {
+            event.preventDefault()
+            if (options[activeIndex]) handleOptionClick(options[activeIndex])
+            return
+        }
+        if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+            event.preventDefault()
+            handleTypeahead(event.key)
+        }
+    }
+
     const handleOptionClick = (option: OptionPickerOption) => {
         if (option.disabled || option.kind === 'group') return
         onChange?.(String(option.value))
@@ -166,6 +310,12 @@ export function OptionPicker({
         triggerRef.current?.focus()
     }
 
+    const handleMenuScroll = (event: React.UIEvent<HTMLDivElement>) => {
+        if (!loadOptions) return
+        const el = event.currentTarget
+        if (el.scrollHeight - el.scrollTop - el.clientHeight < 32) remote.loadMore()
+    }
+
     const canReset = defaultValue !== undefined && String(value) !== String(defaultValue)
     const handleReset = (e: React.MouseEvent) => {
         e.stopPropagation()
@@ -178,7 +328,8 @@ export function OptionPicker({
         .join(' ')
     const menuClasses = [
         styles.menu,
-        menuPlacement === 'top' ? styles.menuTop : '',
+        menuSide === 'top' ? styles.menuTop : '',
+        loadingFirstPage && options.length > 0 ? styles.menuLoading : '',
         closing ? styles.menuClosing : '',
         menuClassName,
     ]
@@ -195,15 +346,39 @@ export function OptionPicker({
             role="listbox"
             id={listId}
             aria-labelledby={triggerId}
+            aria-activedescendant={activeIndex >= 0 && options[activeIndex] ? optionId(activeIndex) : undefined}
+            tabIndex={-1}
+            onKeyDown={handleMenuKeyDown}
+            aria-busy={remote.status === 'loading' || remote.loadingMore || undefined}
             data-option-picker
             onAnimationEnd={handleMenuAnimationEnd}
+            onScroll={handleMenuScroll}
         >
-            {options.map(option => {
+            {loadOptions && remote.status === 'error' && (
+                <div className={styles.status}>
+                    <span className={styles.statusError}>{loadErrorText}</span>
+                    <button type="button" className={styles.resetBtn} onClick={remote.retry}>
+                        {retryText}
+                    </button>
+                </div>
+            )}
+            {/* also shown over results of the previous request, which stay dimmed until the new ones arrive */}
+            {loadingFirstPage && (
+                <div className={styles.status}>
+                    <span className={styles.spinner} aria-hidden="true" />
+                    {loadingText}
+                </div>
+            )}
+            {options.length === 0 && (!loadOptions || remote.status === 'ready') && (
+                <div className={styles.status}>{noOptionsText}</div>
+            )}
+            {options.map((option, index) => {
                 const isSelected = stringValue !== null && String(option.value) === stringValue
                 const isDisabled = option.disabled || option.kind === 'group'
                 const optionClasses = [
                     styles.option,
                     option.kind === 'group' ? styles.optionGroup : '',
+                    index === activeIndex ? styles.optionActive : '',
                     optionClassName,
                 ]
                     .filter(Boolean)
@@ -212,12 +387,18 @@ export function OptionPicker({
                 return (
                     <button
                         key={`${option.value}`}
+                        id={optionId(index)}
                         type="button"
+                        role={option.kind === 'group' ? 'presentation' : 'option'}
+                        tabIndex={-1}
                         className={optionClasses}
                         onClick={() => handleOptionClick(option)}
+                        onMouseDown={event => event.preventDefault()}
+                        onMouseEnter={() => !isDisabled && setActiveIndex(index)}
                         disabled={isDisabled}
                         aria-selected={isSelected}
                         aria-disabled={isDisabled}
+                        data-index={index}
                         data-value={String(option.value)}
                         data-option-picker-option
                     >
@@ -225,6 +406,12 @@ export function OptionPicker({
                     </button>
                 )
             })}
+            {remote.loadingMore && (
+                <div className={styles.status}>
+                    <span className={styles.spinner} aria-hidden="true" />
+                    {loadingText}
+                </div>
+            )}
         </div>
     ) : null
 
@@ -1,27 +1,44 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEventHandler } from 'react'
+import React, { Fragment, useCallback, useEffect, useMemo, useRef, useState, type KeyboardEventHandler } from 'react'
 import { createPortal } from 'react-dom'
 import clsx from 'clsx'
 import { Tooltip } from '../Tooltip'
+import { useAsyncOptions, type LoadOptions } from './useAsyncOptions'
+import { computePanelPlacement, naturalPanelHeight, type PanelPlacement } from './placement'
 import styles from './select.module.scss'
 
+export type { LoadOptions, LoadOptionsResult } from './useAsyncOptions'
+export type { PanelPlacement } from './placement'
+
 export interface SelectOption {
     value: string | number
     label: string
+    /** Icon shown before the label */
+    icon?: React.ReactNode
+    /** Secondary line under the label */
+    description?: string
+    /** Shown but cannot be chosen; skipped by keyboard navigation */
+    disabled?: boolean
+    /** Name of the group — options of one group are listed together under a sticky header */
+    group?: string
 }
 
-export interface SelectProps {
+interface SelectBaseProps {
     /** Label above the select */
     label?: string
     /** Description tooltip text */
     description?: string
-    /** Currently selected value */
-    value: string | number | null | undefined
-    /** Options list */
-    options: SelectOption[]
-    /** Called when user selects an option */
-    onChange?: (value: string | number) => void
-    /** Default value — shows reset link when value differs */
-    defaultValue?: string | number
+    /** Options list. With `loadOptions` — already known options, used to show labels of selected values */
+    options?: SelectOption[]
+    /** Load options from a server instead of filtering `options` locally */
+    loadOptions?: LoadOptions<SelectOption>
+    /** Text shown while options are loading */
+    loadingText?: string
+    /** Text shown when loading options failed */
+    loadErrorText?: string
+    /** Text of the retry button after a failed load */
+    retryText?: string
+    /** Where to open the panel; `auto` flips it above the trigger when there is no room below */
+    placement?: PanelPlacement
     /** Disable interaction */
     disabled?: boolean
     /** Placeholder when nothing is selected */
@@ -32,6 +49,46 @@ export interface SelectProps {
     resetText?: string
     /** Additional className on wrapper */
     className?: string
+    /** Show a text field inside the trigger that filters options */
+    searchable?: boolean
+    /** Placeholder of the search field */
+    searchPlaceholder?: string
+    /** Text shown when no option matches the query */
+    noOptionsText?: string
+}
+
+export interface SelectSingleProps extends SelectBaseProps {
+    multiple?: false
+    /** Currently selected value */
+    value: string | number | null | undefined
+    /** Called when user selects an option */
+    onChange?: (value: string | number) => void
+    /** Default value — shows reset link when value differs */
+    defaultValue?: string | number
+}
+
+export interface SelectMultipleProps extends SelectBaseProps {
+    /** Allow selecting several options; the trigger shows them as chips */
+    multiple: true
+    /** Currently selected values */
+    value: (string | number)[] | null | undefined
+    /** Called with the full selection after each toggle */
+    onChange?: (value: (string | number)[]) => void
+    /** Default selection — shows reset link when the selection differs (order is ignored) */
+    defaultValue?: (string | number)[]
+    /** How many chips to show before collapsing the rest into "+N" */
+    maxChips?: number
+}
+
+export type SelectProps = SelectSingleProps | SelectMultipleProps
+
+function CloseIcon() {
+    return (
+        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+        </svg>
+    )
 }
 
 function ChevronDown() {
@@ -50,37 +107,120 @@ function CheckIcon() {
     )
 }
 
-export function Select({
-    label,
-    description,
-    value,
-    options,
-    onChange,
-    disabled = false,
-    placeholder = 'Select…',
-    error,
-    defaultValue,
-    resetText = 'Reset',
-    className,
-}: SelectProps) {
+const PANEL_MAX_HEIGHT = 320
+
+const sameValues = (a: (string | number)[], b: (string | number)[]) => {
+    if (a.length !== b.length) return false
+    const keys = new Set(a.map(String))
+    return b.every(v => keys.has(String(v)))
+}
+
+/* options of one group end up next to each other, groups keep the order of their first appearance */
+const orderByGroup = (list: SelectOption[]) => {
+    if (!list.some(o => o.group)) return list
+    const groups = new Map<string, SelectOption[]>()
+    list.forEach(o => {
+        const key = o.group ?? ''
+        groups.set(key, [...(groups.get(key) ?? []), o])
+    })
+    return Array.from(groups.values()).flat()
+}
+
+const findEnabled = (list: SelectOption[], from: number, dir: 1 | -1) => {
+    for (let i = from; i >= 0 && i < list.length; i += dir) {
+        if (!list[i].disabled) return i
+    }
+    return -1
+}
+
+const matchesQuery = (option: SelectOption, query: string) =>
+    option.label.toLowerCase().includes(query.trim().toLowerCase())
+
+function HighlightedLabel({ text, query }: { text: string; query: string }) {
+    const q = query.trim()
+    const at = q ? text.toLowerCase().indexOf(q.toLowerCase()) : -1
+    if (at < 0) return <>{text}</>
+    return (
+        <>
+            {text.slice(0, at)}
+            <mark className={styles.match}>{text.slice(at, at + q.length)}</mark>
+            {text.slice(at + q.length)}
+        </>
+    )
+}
+
+export function Select(props: SelectProps) {
+    const {
+        label,
+        description,
+        options = [],
+        loadOptions,
+        loadingText = 'Loading…',
+        loadErrorText = 'Failed to load options',
+        retryText = 'Retry',
+        placement = 'auto',
+        disabled = false,
+        placeholder = 'Select…',
+        error,
+        resetText = 'Reset',
+        className,
+        searchable = false,
+        searchPlaceholder = 'Search…',
+        noOptionsText = 'Nothing found',
+    } = props
     const [open, setOpen] = useState(false)
     const [closing, setClosing] = useState(false)
     const [mounted, setMounted] = useState(false)
     const [panelStyle, setPanelStyle] = useState<React.CSSProperties>({})
+    const [panelSide, setPanelSide] = useState<'top' | 'bottom'>('bottom')
     const [hover, setHover] = useState(-1)
+    const [query, setQuery] = useState('')
     const wrapRef = useRef<HTMLDivElement>(null)
+    const searchRef = useRef<HTMLInputElement>(null)
     const panelRef = useRef<HTMLDivElement>(null)
     const listRef = useRef<HTMLDivElement>(null)
 
     useEffect(() => setMounted(true), [])
 
     const showPanel = open || closing
+    const remote = useAsyncOptions({ loadOptions, query, active: open && !closing })
+    const loadingFirstPage = !!loadOptions && (remote.status === 'idle' || remote.status === 'loading')
+    const knownOptions = useMemo(
+        () => (loadOptions ? [...options, ...remote.known] : options),
+        [loadOptions, options, remote.known],
+    )
+
+    const multiple = props.multiple === true
+    const selectedValues: (string | number)[] = props.multiple
+        ? props.value ?? []
+        : props.value === null || props.value === undefined ? [] : [props.value]
+    const selectedKeys = new Set(selectedValues.map(String))
+    const isSelected = (o: SelectOption) => selectedKeys.has(String(o.value))
+    const firstKey = selectedValues.length > 0 ? String(selectedValues[0]) : null
 
-    const idxByValue = useMemo(
-        () => options.findIndex(o => String(o.value) === String(value)),
-        [options, value],
+    const selected = firstKey === null ? null : knownOptions.find(o => String(o.value) === firstKey) ?? null
+    const selectedOptions = selectedValues
+        .map(v => knownOptions.find(o => String(o.value) === String(v)))
+        .filter((o): o is SelectOption => o !== undefined)
+    const maxChips = props.multiple ? props.maxChips ?? 3 : 0
+
+    const visibleOptions = useMemo(() => {
+        if (loadOptions) return orderByGroup(remote.options)
+        return orderByGroup(searchable && query ? options.filter(o => matchesQuery(o, query)) : options)
+    }, [loadOptions, remote.options, options, query, searchable])
+    const sections = useMemo(() => {
+        const result: { group?: string; items: { option: SelectOption; index: number }[] }[] = []
+        visibleOptions.forEach((option, index) => {
+            const last = result[result.length - 1]
+            if (last && last.group === option.group) last.items.push({ option, index })
+            else result.push({ group: option.group, items: [{ option, index }] })
+        })
+        return result
+    }, [visibleOptions])
+    const visibleIdxByValue = useMemo(
+        () => visibleOptions.findIndex(o => String(o.value) === firstKey),
+        [visibleOptions, firstKey],
     )
-    const selected = idxByValue >= 0 ? options[idxByValue] : null
 
     const closePanel = useCallback(() => {
         if (!open) return
@@ -91,21 +231,24 @@ export function Select({
         if (closing) {
             setClosing(false)
             setOpen(false)
+            setQuery('')
         }
     }, [closing])
 
+    useEffect(() => {
+        if (open && !closing && searchable) searchRef.current?.focus()
+    }, [open, closing, searchable])
+
     const updatePanelPosition = useCallback(() => {
         const el = wrapRef.current
         if (!el) return
         const rect = el.getBoundingClientRect()
-        setPanelStyle({
-            position: 'fixed',
-            top: rect.bottom + 6,
-            left: rect.left,
-            minWidth: rect.width,
-            zIndex: 10050,
-        })
-    }, [])
+        const panel = panelRef.current
+        const naturalHeight = panel ? naturalPanelHeight(panel, listRef.current ?? panel) : PANEL_MAX_HEIGHT
+        const { style, side } = computePanelPlacement(rect, placement, naturalHeight, PANEL_MAX_HEIGHT)
+        setPanelStyle({ ...style, position: 'fixed', zIndex: 10050 })
+        setPanelSide(side)
+    }, [placement])
 
     useEffect(() => {
         if (!open) return
@@ -118,6 +261,18 @@ export function Select({
         }
     }, [open, updatePanelPosition])
 
+    /* panel height changes as options are filtered or loaded */
+    useEffect(() => {
+        if (open) updatePanelPosition()
+    }, [open, visibleOptions.length, remote.status, remote.loadingMore, updatePanelPosition])
+
+    useEffect(() => {
+        if (!open || hover < 0) return
+        listRef.current
+            ?.querySelector<HTMLElement>(`[data-index="${hover}"]`)
+            ?.scrollIntoView({ block: 'nearest' })
+    }, [open, hover])
+
     /* close on outside click — panel is in portal so check both wrap and panel */
     useEffect(() => {
         const handler = (e: MouseEvent) => {
@@ -130,10 +285,38 @@ export function Select({
     }, [closePanel])
 
     const commit = (i: number) => {
-        const opt = options[i]
-        if (!opt) return
-        onChange?.(opt.value)
+        const opt = visibleOptions[i]
+        if (!opt || opt.disabled) return
+        if (props.multiple) {
+            props.onChange?.(
+                isSelected(opt)
+                    ? selectedValues.filter(v => String(v) !== String(opt.value))
+                    : [...selectedValues, opt.value],
+            )
+            return
+        }
+        props.onChange?.(opt.value)
         closePanel()
+        if (searchable) wrapRef.current?.focus()
+    }
+
+    const removeValue = (v: string | number) => {
+        if (!props.multiple || disabled) return
+        props.onChange?.(selectedValues.filter(s => String(s) !== String(v)))
+    }
+
+    /* first enabled match for a query (the selected option for an empty one); remote results are not known yet */
+    const hoverForQuery = (next: string) => {
+        if (loadOptions) return 0
+        const matches = orderByGroup(options.filter(o => matchesQuery(o, next)))
+        const selectedMatch = matches.findIndex(o => String(o.value) === firstKey && !o.disabled)
+        return !next.trim() && selectedMatch >= 0 ? selectedMatch : findEnabled(matches, 0, 1)
+    }
+
+    const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const next = e.target.value
+        setQuery(next)
+        setHover(hoverForQuery(next))
     }
 
     const toggle = () => {
@@ -141,16 +324,35 @@ export function Select({
         if (open) {
             closePanel()
         } else {
-            setHover(idxByValue >= 0 ? idxByValue : 0)
+            const current = visibleOptions[visibleIdxByValue]
+            setHover(current && !current.disabled ? visibleIdxByValue : findEnabled(visibleOptions, 0, 1))
             setOpen(true)
         }
     }
 
-    const canReset = defaultValue !== undefined && String(value) !== String(defaultValue)
+    const canReset = props.multiple
+        ? props.defaultValue !== undefined && !sameValues(selectedValues, props.defaultValue)
+        : props.defaultValue !== undefined && String(props.value) !== String(props.defaultValue)
 
     const handleReset = (e: React.MouseEvent) => {
         e.stopPropagation()
-        if (defaultValue !== undefined) onChange?.(defaultValue)
+        if (props.multiple) {
+            if (props.defaultValue !== undefined) props.onChange?.(props.defaultValue)
+        } else if (props.defaultValue !== undefined) {
+            props.onChange?.(props.defaultValue)
+        }
+    }
+
+    const handleListScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        if (!loadOptions) return
+        const el = e.currentTarget
+        if (el.scrollHeight - el.scrollTop - el.clientHeight < 32) remote.loadMore()
+    }
+
+    const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!multiple || e.key !== 'Backspace' || query) return
+        const last = selectedValues[selectedValues.length - 1]
+        if (last !== undefined) removeValue(last)
     }
 
     const onKeyDown: KeyboardEventHandler = e => {
@@ -159,11 +361,29 @@ export function Select({
             toggle()
             return
         }
+        if (!open && searchable && !disabled && e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+            e.preventDefault()
+            setQuery(e.key)
+            setHover(hoverForQuery(e.key))
+            setOpen(true)
+            return
+        }
         if (!open) return
-        if (e.key === 'Escape') { e.preventDefault(); closePanel(); return }
-        if (e.key === 'ArrowDown') { e.preventDefault(); setHover(h => Math.min(options.length - 1, h < 0 ? 0 : h + 1)); return }
-        if (e.key === 'ArrowUp') { e.preventDefault(); setHover(h => Math.max(0, h < 0 ? 0 : h - 1)); return }
-        if (e.key === 'Enter') { e.preventDefault(); commit(hover >= 0 ? hover : idxByValue >= 0 ? idxByValue : 0) }
+        if (e.key === 'Escape') {
+            e.preventDefault()
+            closePanel()
+            if (searchable) wrapRef.current?.focus()
+            return
+        }
+        const move = (from: number, dir: 1 | -1) => {
+            const next = findEnabled(visibleOptions, from, dir)
+            if (next >= 0) setHover(next)
+        }
+        if (e.key === 'ArrowDown') { e.preventDefault(); move(hover < 0 ? 0 : hover + 1, 1); return }
+        if (e.key === 'ArrowUp') { e.preventDefault(); move(hover < 0 ? 0 : hover - 1, hover < 0 ? 1 : -1); return }
+        if (e.key === 'Home' && !searchable) { e.preventDefault(); move(0, 1); return }
+        if (e.key === 'End' && !searchable) { e.preventDefault(); move(visibleOptions.length - 1, -1); return }
+        if (e.key === 'Enter') { e.preventDefault(); commit(hover >= 0 ? hover : visibleIdxByValue >= 0 ? visibleIdxByValue : findEnabled(visibleOptions, 0, 1)) }
     }
 
     return (
@@ -200,9 +420,69 @@ export function Select({
             )}
 
             <div className={styles.valueLine}>
-                <span className={clsx(styles.value, !selected && styles.placeholder)}>
-                    {selected ? selected.label : placeholder}
-                </span>
+                {multiple ? (
+                    <div className={styles.chips}>
+                        {selectedOptions.slice(0, maxChips).map(o => (
+                            <span key={String(o.value)} className={styles.chip}>
+                                <span className={styles.chipLabel}>{o.label}</span>
+                                <button
+                                    type="button"
+                                    className={styles.chipRemove}
+                                    aria-label={`Remove ${o.label}`}
+                                    tabIndex={-1}
+                                    onClick={e => {
+                                        e.stopPropagation()
+                                        removeValue(o.value)
+                                    }}
+                                >
+                                    <CloseIcon />
+                                </button>
+                            </span>
+                        ))}
+                        {selectedOptions.length > maxChips && (
+                            <span className={clsx(styles.chip, styles.chipMore)}>+{selectedOptions.length - maxChips}</span>
+                        )}
+                        {searchable && open && !closing ? (
+                            <input
+                                ref={searchRef}
+                                className={styles.searchInput}
+                                value={query}
+                                placeholder={selectedOptions.length ? '' : searchPlaceholder}
+                                onChange={handleQueryChange}
+                                onKeyDown={handleQueryKeyDown}
+                                onClick={e => e.stopPropagation()}
+                                role="combobox"
+                                aria-expanded={open}
+                                aria-autocomplete="list"
+                                autoComplete="off"
+                                spellCheck={false}
+                            />
+                        ) : (
+                            selectedOptions.length === 0 && (
+                                <span className={clsx(styles.value, styles.placeholder)}>{placeholder}</span>
+                            )
+                        )}
+                    </div>
+                ) : searchable && open && !closing ? (
+                    <input
+                        ref={searchRef}
+                        className={styles.searchInput}
+                        value={query}
+                        placeholder={selected ? selected.label : searchPlaceholder}
+                        onChange={handleQueryChange}
+                        onClick={e => e.stopPropagation()}
+                        role="combobox"
+                        aria-expanded={open}
+                        aria-autocomplete="list"
+                        autoComplete="off"
+                        spellCheck={false}
+                    />
+                ) : (
+                    <span className={clsx(styles.value, !selected && styles.placeholder)}>
+                        {selected?.icon && <span className={styles.valueIcon}>{selected.icon}</span>}
+                        {selected ? selected.label : placeholder}
+                    </span>
+                )}
                 <span className={clsx(styles.arrow, open && styles.arrowOpen)}>
                     <ChevronDown />
                 </span>
@@ -211,29 +491,83 @@ export function Select({
             {mounted && showPanel && createPortal(
                 <div
                     ref={panelRef}
-                    className={clsx(styles.panel, closing && styles.panelClosing)}
+                    className={clsx(styles.panel, panelSide === 'top' && styles.panelTop, closing && styles.panelClosing)}
                     style={panelStyle}
                     onClick={e => e.stopPropagation()}
                     onAnimationEnd={handleAnimEnd}
                 >
-                    <div ref={listRef} className={styles.list} role="listbox">
-                        {options.map((o, i) => {
-                            const active = String(o.value) === String(value)
-                            return (
-                                <button
-                                    key={String(o.value)}
-                                    type="button"
-                                    className={clsx(styles.option, active && styles.active, hover === i && styles.hover)}
-                                    role="option"
-                                    aria-selected={active}
-                                    onMouseEnter={() => setHover(i)}
-                                    onClick={() => commit(i)}
-                                >
-                                    <span className={styles.optionLabel}>{o.label}</span>
-                                    {active && <span className={styles.check}><CheckIcon /></span>}
+                    <div
+                        ref={listRef}
+                        className={clsx(styles.list, loadingFirstPage && visibleOptions.length > 0 && styles.listLoading)}
+                        role="listbox"
+                        aria-multiselectable={multiple || undefined}
+                        aria-busy={remote.status === 'loading' || remote.loadingMore || undefined}
+                        onScroll={handleListScroll}
+                    >
+                        {loadOptions && remote.status === 'error' && (
+                            <div className={styles.loadError}>
+                                <span>{loadErrorText}</span>
+                                <button type="button" className={styles.resetBtn} onClick={remote.retry}>
+                                    {retryText}
                                 </button>
+                            </div>
+                        )}
+                        {/* also shown over results of the previous query, which stay dimmed until the new ones arrive */}
+                        {loadingFirstPage && (
+                            <div className={styles.empty}>
+                                <span className={styles.spinner} />
+                                {loadingText}
+                            </div>
+                        )}
+                        {visibleOptions.length === 0 && (!loadOptions || remote.status === 'ready') && (
+                            <div className={styles.empty}>{noOptionsText}</div>
+                        )}
+                        {sections.map((section, si) => {
+                            const items = section.items.map(({ option: o, index: i }) => {
+                                const active = isSelected(o)
+                                return (
+                                    <button
+                                        key={String(o.value)}
+                                        type="button"
+                                        className={clsx(styles.option, active && styles.active, hover === i && styles.hover)}
+                                        role="option"
+                                        aria-selected={active}
+                                        aria-disabled={o.disabled || undefined}
+                                        data-index={i}
+                                        disabled={o.disabled}
+                                        onMouseEnter={() => !o.disabled && setHover(i)}
+                                        onClick={() => commit(i)}
+                                    >
+                                        {multiple && (
+                                            <span className={clsx(styles.checkbox, active && styles.checkboxChecked)}>
+                                                {active && <CheckIcon />}
+                                            </span>
+                                        )}
+                                        {o.icon && <span className={styles.optionIcon}>{o.icon}</span>}
+                                        <span className={styles.optionText}>
+                                            <span className={styles.optionLabel}>
+                                                {searchable ? <HighlightedLabel text={o.label} query={query} /> : o.label}
+                                            </span>
+                                            {o.description && <span className={styles.optionDescription}>{o.description}</span>}
+                                        </span>
+                                        {active && !multiple && <span className={styles.check}><CheckIcon /></span>}
+                                    </button>
+                                )
+                            })
+                            if (!section.group) return <Fragment key={`section-${si}`}>{items}</Fragment>
+                            return (
+                                <div key={`group-${section.group}`} className={styles.group} role="group" aria-label={section.group}>
+                                    <div className={styles.groupHeader} aria-hidden="true">{section.group}</div>
+                                    {items}
+                                </div>
                             )
                         })}
+                        {remote.loadingMore && (
+                            <div className={styles.empty}>
+                                <span className={styles.spinner} />
+                                {loadingText}
+                            </div>
+                        )}
                     </div>
                 </div>,
                 document.body,
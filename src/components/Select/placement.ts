@@ -0,0 +1,46 @@
+import type React from 'react'
+
+export type PanelPlacement = 'auto' | 'top' | 'bottom'
+
+const GAP = 6
+const VIEWPORT_MARGIN = 8
+
+/**
+ * Height the panel would take without a height limit: the scrolling list's full
+ * content plus the panel chrome around it (padding, borders, search box…).
+ * `list` is the element that scrolls; pass the panel itself when it scrolls.
+ */
+export function naturalPanelHeight(panel: HTMLElement, list: HTMLElement = panel): number {
+    return panel.offsetHeight - list.clientHeight + list.scrollHeight
+}
+
+/**
+ * Places a dropdown panel next to its trigger. `auto` prefers the space below and
+ * flips above when the panel does not fit there but fits better above.
+ * `maxHeight` is shrunk to the space left on the chosen side so the list scrolls inside.
+ */
+export function computePanelPlacement(
+    rect: DOMRect,
+    placement: PanelPlacement,
+    panelHeight: number,
+    maxHeight: number,
+): { style: React.CSSProperties; side: 'top' | 'bottom' } {
+    const vh = typeof window === 'undefined' ? 768 : window.innerHeight
+    const spaceBelow = vh - rect.bottom - GAP - VIEWPORT_MARGIN
+    const spaceAbove = rect.top - GAP - VIEWPORT_MARGIN
+    const wanted = Math.min(panelHeight, maxHeight)
+
+    let side: 'top' | 'bottom' = placement === 'top' ? 'top' : 'bottom'
+    if (placement === 'auto' && spaceBelow < wanted && spaceAbove > spaceBelow) side = 'top'
+
+    const space = side === 'top' ? spaceAbove : spaceBelow
+    const style: React.CSSProperties = {
+        left: rect.left,
+        minWidth: rect.width,
+        maxHeight: Math.max(0, Math.min(maxHeight, space)),
+    }
+    if (side === 'top') style.bottom = vh - rect.top + GAP
+    else style.top = rect.bottom + GAP
+
+    return { style, side }
+}
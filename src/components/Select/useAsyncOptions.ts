@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type LoadOptionsResult<T> = T[] | { options: T[]; hasMore?: boolean }
+
+/**
+ * Fetches options for `query`. `page` starts at 0 and grows when the list is
+ * scrolled to the bottom — return `{ options, hasMore: true }` to enable that.
+ * Stale requests are aborted through `signal`.
+ */
+export type LoadOptions<T> = (query: string, signal: AbortSignal, page: number) => Promise<LoadOptionsResult<T>>
+
+export type AsyncOptionsStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+interface UseAsyncOptionsParams<T> {
+    loadOptions?: LoadOptions<T>
+    query: string
+    /** Requests only run while the panel is open */
+    active: boolean
+    debounceMs?: number
+}
+
+const normalize = <T,>(result: LoadOptionsResult<T>) =>
+    Array.isArray(result) ? { options: result, hasMore: false } : { options: result.options, hasMore: !!result.hasMore }
+
+export function useAsyncOptions<T extends { value: string | number }>({
+    loadOptions,
+    query,
+    active,
+    debounceMs = 250,
+}: UseAsyncOptionsParams<T>) {
+    const [options, setOptions] = useState<T[]>([])
+    /* every option seen so far — lets the trigger resolve labels of selected values */
+    const [known, setKnown] = useState<T[]>([])
+    const [status, setStatus] = useState<AsyncOptionsStatus>('idle')
+    const [error, setError] = useState<unknown>(null)
+    const [hasMore, setHasMore] = useState(false)
+    const [page, setPage] = useState(0)
+    const [loadingMore, setLoadingMore] = useState(false)
+    const [attempt, setAttempt] = useState(0)
+    const loadRef = useRef(loadOptions)
+    const controllerRef = useRef<AbortController | null>(null)
+    const enabled = !!loadOptions
+
+    useEffect(() => {
+        loadRef.current = loadOptions
+    }, [loadOptions])
+
+    const run = useCallback((q: string, nextPage: number) => {
+        const load = loadRef.current
+        if (!load) return
+        controllerRef.current?.abort()
+        const controller = new AbortController()
+        controllerRef.current = controller
+
+        if (nextPage === 0) setStatus('loading')
+        else setLoadingMore(true)
+
+        load(q, controller.signal, nextPage).then(
+            result => {
+                if (controller.signal.aborted) return
+                const { options: loaded, hasMore: more } = normalize(result)
+                setOptions(prev => (nextPage === 0 ? loaded : [...prev, ...loaded]))
+                setKnown(prev => {
+                    const byKey = new Map(prev.map(o => [String(o.value), o]))
+                    loaded.forEach(o => byKey.set(String(o.value), o))
+                    return Array.from(byKey.values())
+                })
+                setHasMore(more)
+                setPage(nextPage)
+                setError(null)
+                setStatus('ready')
+                setLoadingMore(false)
+            },
+            (err: unknown) => {
+                if (controller.signal.aborted) return
+                setError(err)
+                setStatus('error')
+                setLoadingMore(false)
+            },
+        )
+    }, [])
+
+    useEffect(() => {
+        if (!enabled || !active) {
+            controllerRef.current?.abort()
+            setLoadingMore(false)
+            return
+        }
+        setStatus('loading')
+        const timer = setTimeout(() => run(query, 0), query ? debounceMs : 0)
+        return () => {
+            clearTimeout(timer)
+            controllerRef.current?.abort()
+        }
+    }, [enabled, active, query, debounceMs, attempt, run])
+
+    const loadMore = useCallback(() => {
+        if (!hasMore || loadingMore || status !== 'ready') return
+        run(query, page + 1)
+    }, [hasMore, loadingMore, status, run, query, page])
+
+    const retry = useCallback(() => setAttempt(a => a + 1), [])
+
+    return { options, known, status, error, hasMore, loadingMore, loadMore, retry }
+}
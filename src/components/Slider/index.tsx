@@ -1,21 +1,27 @@
-import { useCallback, useEffect, useRef, useState, type KeyboardEventHandler, type MouseEventHandler } from 'react'
+import { useCallback, useMemo, useRef, useState, type KeyboardEvent, type PointerEvent, type ReactNode } from 'react'
 import clsx from 'clsx'
 import { Tooltip } from '../Tooltip'
 import styles from './slider.module.scss'
 
-export interface SliderProps {
+export interface SliderMark {
+    value: number
+    /** Text under the bar; omit for a bare tick */
+    label?: ReactNode
+}
+
+/** Maps values to positions along the bar; positions run from 0 (min) to 1 (max) */
+export interface SliderScale {
+    toValue: (position: number, min: number, max: number) => number
+    toPosition: (value: number, min: number, max: number) => number
+}
+
+interface SliderBaseProps {
     /** Minimum value */
     min: number
     /** Maximum value */
     max: number
     /** Step increment */
     step?: number
-    /** Current value */
-    value: number
-    /** Called on value change */
-    onChange?: (value: number) => void
-    /** Default value — when set, a "Reset" link appears if value differs */
-    defaultValue?: number
     /** Label text */
     label?: string
     /** Description tooltip */
@@ -32,100 +38,287 @@ export interface SliderProps {
     resetText?: string
     /** Additional className */
     className?: string
+    /** Ticks drawn along the bar, optionally labelled (e.g. `[{ value: 1, label: '1x' }]`) */
+    marks?: (number | SliderMark)[]
+    /** Only allow values at `marks`; arrow keys then step from mark to mark */
+    snapToMarks?: boolean
+    /**
+     * Value-to-position mapping. `log` suits frequencies and other ranges spanning decades (needs `min > 0`).
+     * With a non-linear scale arrow keys move by 1% of the bar (10% with Shift) instead of `step`.
+     */
+    scale?: 'linear' | 'log' | SliderScale
+    /** Formats the centre value and min/max labels (e.g. "1.2 kHz"); replaces `unit` */
+    formatValue?: (value: number) => ReactNode
+    /** Bar direction; a vertical bar grows upwards and takes its height from `--ps-slider-length` (180px) */
+    orientation?: 'horizontal' | 'vertical'
+    /** Show min/max labels at the ends of the bar */
+    showBounds?: boolean
+    /** Accessible name when there is no visible `label` */
+    ariaLabel?: string
+}
+
+export interface SliderSingleProps extends SliderBaseProps {
+    range?: false
+    /** Current value */
+    value: number
+    /** Called on value change */
+    onChange?: (value: number) => void
+    /** Default value — when set, a "Reset" link appears if value differs */
+    defaultValue?: number
+    /** Called with the value before an interaction (drag, key press, typed value) changes it */
+    onChangeStart?: (value: number) => void
+    /** Called once with the final value when an interaction ends — e.g. when the pointer is released */
+    onChangeEnd?: (value: number) => void
+}
+
+export interface SliderRangeProps extends SliderBaseProps {
+    /** Two thumbs selecting a `[from, to]` range; the thumbs never cross */
+    range: true
+    /** Current range */
+    value: [number, number]
+    /** Called on range change */
+    onChange?: (value: [number, number]) => void
+    /** Default range — when set, a "Reset" link appears if the range differs */
+    defaultValue?: [number, number]
+    /** Called with the range before an interaction (drag, key press, typed value) changes it */
+    onChangeStart?: (value: [number, number]) => void
+    /** Called once with the final range when an interaction ends — e.g. when the pointer is released */
+    onChangeEnd?: (value: [number, number]) => void
 }
 
+export type SliderProps = SliderSingleProps | SliderRangeProps
+
 const clamp = (n: number, a: number, b: number) => Math.min(b, Math.max(a, n))
 const snap = (n: number, step: number, min: number) => Math.round((n - min) / step) * step + min
+const linearScale: SliderScale = {
+    toValue: (p, min, max) => min + p * (max - min),
+    toPosition: (v, min, max) => (v - min) / Math.max(0.00001, max - min),
+}
+
+const logScale: SliderScale = {
+    toValue: (p, min, max) => min * Math.pow(max / min, p),
+    toPosition: (v, min, max) => Math.log(v / min) / Math.log(max / min),
+}
+
+const resolveScale = (scale: SliderProps['scale'], min: number) => {
+    if (scale === 'log') return min > 0 ? logScale : linearScale
+    if (scale && scale !== 'linear') return scale
+    return linearScale
+}
+
+const nearestMark = (marks: SliderMark[], n: number) =>
+    marks.reduce((best, m) => (Math.abs(m.value - n) < Math.abs(best - n) ? m.value : best), marks[0].value)
 
-export function Slider({
-    min,
-    max,
-    step = 1,
-    value,
-    onChange,
-    defaultValue,
-    label,
-    description,
-    unit,
-    showValue = true,
-    editable = true,
-    disabled = false,
-    resetText = 'Reset',
-    className,
-}: SliderProps) {
+export function Slider(props: SliderProps) {
+    const {
+        min,
+        max,
+        step = 1,
+        label,
+        description,
+        unit,
+        showValue = true,
+        editable = true,
+        disabled = false,
+        resetText = 'Reset',
+        className,
+        marks,
+        snapToMarks = false,
+        scale,
+        formatValue,
+        orientation = 'horizontal',
+        showBounds = true,
+        ariaLabel,
+    } = props
     const trackRef = useRef<HTMLDivElement>(null)
-    const [dragging, setDragging] = useState(false)
-    const [editing, setEditing] = useState(false)
+    const thumbRefs = useRef<(HTMLDivElement | null)[]>([])
+    /* latest values emitted during a drag — reported by onChangeEnd even if the parent has not re-rendered yet */
+    const dragValuesRef = useRef<number[]>([])
+    const [dragging, setDragging] = useState<number | null>(null)
+    const [editing, setEditing] = useState<number | null>(null)
     const [draft, setDraft] = useState('')
 
-    const range = Math.max(0.00001, max - min)
-    const v = clamp(value, min, max)
-    const pct = ((v - min) / range) * 100
-    const canReset = defaultValue !== undefined && value !== defaultValue
+    const { toValue, toPosition } = resolveScale(scale, min)
+    const isLinear = !scale || scale === 'linear' || (scale === 'log' && min <= 0)
+    const pctOf = (n: number) => clamp(toPosition(n, min, max), 0, 1) * 100
+    const isRange = props.range === true
+    const values = props.range
+        ? [clamp(Math.min(...props.value), min, max), clamp(Math.max(...props.value), min, max)]
+        : [clamp(props.value, min, max)]
+    const pcts = values.map(pctOf)
+    const vertical = orientation === 'vertical'
+    /* position along the bar: from the left edge, or from the bottom edge when vertical */
+    const at = (pct: number): React.CSSProperties => (vertical ? { bottom: `${pct}%` } : { left: `${pct}%` })
+    const markList = useMemo(
+        () =>
+            (marks ?? [])
+                .map(m => (typeof m === 'number' ? { value: m } : m))
+                .filter(m => m.value >= min && m.value <= max)
+                .sort((a, b) => a.value - b.value),
+        [marks, min, max],
+    )
+    const snapsToMarks = snapToMarks && markList.length > 0
+    const canReset = props.range
+        ? props.defaultValue !== undefined && (props.value[0] !== props.defaultValue[0] || props.value[1] !== props.defaultValue[1])
+        : props.defaultValue !== undefined && props.value !== props.defaultValue
+
+    const emit = useCallback((next: number[]) => {
+        if (props.range) props.onChange?.([next[0], next[1]])
+        else props.onChange?.(next[0])
+    }, [props.range, props.onChange])
+
+    const notify = (phase: 'start' | 'end', next: number[]) => {
+        if (props.range) (phase === 'start' ? props.onChangeStart : props.onChangeEnd)?.([next[0], next[1]])
+        else (phase === 'start' ? props.onChangeStart : props.onChangeEnd)?.(next[0])
+    }
 
-    const commit = useCallback((n: number) => {
-        onChange?.(clamp(snap(n, step, min), min, max))
-    }, [onChange, step, min, max])
+    /* Moves one thumb; in range mode a thumb stops at its neighbour */
+    const commit = useCallback((thumb: number, n: number) => {
+        const lo = thumb === 1 ? values[0] : min
+        const hi = thumb === 0 && values.length > 1 ? values[1] : max
+        const next = [...values]
+        const snapped = snapsToMarks ? nearestMark(markList, n) : snap(n, step, min)
+        next[thumb] = clamp(clamp(snapped, min, max), lo, hi)
+        dragValuesRef.current = next
+        if (next[thumb] !== values[thumb]) emit(next)
+        return next
+    }, [values, min, max, step, emit, snapsToMarks, markList])
+
+    /* A single discrete change (key press, typed value, reset) is a whole interaction */
+    const commitOnce = (thumb: number, n: number) => {
+        notify('start', values)
+        const next = commit(thumb, n)
+        notify('end', next)
+    }
 
     const handleReset = (e: React.MouseEvent) => {
         e.stopPropagation()
-        if (defaultValue !== undefined) onChange?.(defaultValue)
+        if (props.defaultValue === undefined) return
+        const next = typeof props.defaultValue === 'number' ? [props.defaultValue] : [...props.defaultValue]
+        notify('start', values)
+        emit(next)
+        notify('end', next)
     }
 
-    /* Drag logic */
-    useEffect(() => {
-        if (!dragging) return
-        const onMove = (e: MouseEvent) => {
-            if (!trackRef.current) return
-            const rect = trackRef.current.getBoundingClientRect()
-            const x = clamp((e.clientX - rect.left) / rect.width, 0, 1)
-            commit(min + x * range)
-        }
-        const onUp = () => setDragging(false)
-        window.addEventListener('mousemove', onMove)
-        window.addEventListener('mouseup', onUp)
-        return () => {
-            window.removeEventListener('mousemove', onMove)
-            window.removeEventListener('mouseup', onUp)
-        }
-    }, [dragging, min, range, commit])
+    /* the thumb closest to `n`; when both sit on one spot, pick by the side of `n` */
+    const nearestThumb = (n: number) => {
+        if (values.length < 2) return 0
+        const d0 = Math.abs(n - values[0])
+        const d1 = Math.abs(n - values[1])
+        return d1 < d0 || (d1 === d0 && n > values[1]) ? 1 : 0
+    }
 
-    const handleTrackDown: MouseEventHandler = e => {
-        if (disabled || editing) return
-        e.stopPropagation()
-        setDragging(true)
-        if (!trackRef.current) return
+    const valueAt = (e: PointerEvent) => {
+        if (!trackRef.current) return null
         const rect = trackRef.current.getBoundingClientRect()
-        const x = clamp((e.clientX - rect.left) / rect.width, 0, 1)
-        commit(min + x * range)
+        const p = vertical ? (rect.bottom - e.clientY) / rect.height : (e.clientX - rect.left) / rect.width
+        return toValue(clamp(p, 0, 1), min, max)
+    }
+
+    /* Drag logic — pointer capture keeps the drag alive outside the bar (and outside iframes) for mouse, touch and pen */
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        if (disabled || editing !== null) return
+        if (e.pointerType === 'mouse' && e.button !== 0) return
+        e.stopPropagation()
+        const n = valueAt(e)
+        if (n === null) return
+        const thumb = nearestThumb(n)
+        if (values.length > 1) thumbRefs.current[thumb]?.focus()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        notify('start', values)
+        setDragging(thumb)
+        commit(thumb, n)
+    }
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (dragging === null) return
+        const n = valueAt(e)
+        if (n !== null) commit(dragging, n)
+    }
+
+    const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        if (dragging === null) return
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId)
+        setDragging(null)
+        notify('end', dragValuesRef.current)
     }
 
-    const handleKeyDown: KeyboardEventHandler = e => {
+    const handleKeyDown = (thumb: number) => (e: KeyboardEvent) => {
         if (disabled) return
         const accel = e.shiftKey ? 10 : 1
-        if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') { e.preventDefault(); commit(v - step * accel) }
-        if (e.key === 'ArrowRight' || e.key === 'ArrowUp') { e.preventDefault(); commit(v + step * accel) }
-        if (e.key === 'Home') { e.preventDefault(); commit(min) }
-        if (e.key === 'End') { e.preventDefault(); commit(max) }
+        const v = values[thumb]
+        if (snapsToMarks && (e.key === 'ArrowLeft' || e.key === 'ArrowDown')) {
+            e.preventDefault()
+            const prev = [...markList].reverse().find(m => m.value < v)
+            if (prev) commitOnce(thumb, prev.value)
+            return
+        }
+        if (snapsToMarks && (e.key === 'ArrowRight' || e.key === 'ArrowUp')) {
+            e.preventDefault()
+            const next = markList.find(m => m.value > v)
+            if (next) commitOnce(thumb, next.value)
+            return
+        }
+        if (!isLinear && (e.key === 'ArrowLeft' || e.key === 'ArrowDown' || e.key === 'ArrowRight' || e.key === 'ArrowUp')) {
+            e.preventDefault()
+            const dir = e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -1 : 1
+            const target = toValue(clamp(toPosition(v, min, max) + dir * 0.01 * accel, 0, 1), min, max)
+            /* make sure a coarse `step` still moves the thumb by at least one step */
+            commitOnce(thumb, dir > 0 ? Math.max(target, v + step) : Math.min(target, v - step))
+            return
+        }
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') { e.preventDefault(); commitOnce(thumb, v - step * accel) }
+        if (e.key === 'ArrowRight' || e.key === 'ArrowUp') { e.preventDefault(); commitOnce(thumb, v + step * accel) }
+        if (e.key === 'Home') { e.preventDefault(); commitOnce(thumb, min) }
+        if (e.key === 'End') { e.preventDefault(); commitOnce(thumb, max) }
     }
 
-    const startEdit = (e: React.MouseEvent) => {
+    const startEdit = (thumb: number) => (e: React.MouseEvent) => {
         e.stopPropagation()
         if (!editable || disabled) return
-        setDraft(String(v))
-        setEditing(true)
+        setDraft(String(values[thumb]))
+        setEditing(thumb)
     }
 
     const stopEdit = (apply: boolean) => {
-        if (apply) {
+        if (apply && editing !== null) {
             const num = Number(draft.replace(',', '.'))
-            if (Number.isFinite(num)) commit(num)
+            if (Number.isFinite(num)) commitOnce(editing, num)
         }
-        setEditing(false)
+        setEditing(null)
+    }
+
+    const display = (n: number) =>
+        formatValue ? formatValue(n) : <>{n}<span className={styles.unit}>{unit}</span></>
+    const valueText = (n: number) => {
+        const text = formatValue?.(n)
+        return typeof text === 'string' ? text : undefined
     }
 
+    const renderValue = (thumb: number) =>
+        editing !== thumb ? (
+            <button type="button" className={styles.valueBtn} onPointerDown={e => e.stopPropagation()} onClick={startEdit(thumb)}>
+                {display(values[thumb])}
+            </button>
+        ) : (
+            <input
+                className={styles.valueInput}
+                autoFocus
+                value={draft}
+                onClick={e => e.stopPropagation()}
+                onPointerDown={e => e.stopPropagation()}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={() => stopEdit(true)}
+                onKeyDown={e => {
+                    e.stopPropagation()
+                    if (e.key === 'Enter') stopEdit(true)
+                    if (e.key === 'Escape') stopEdit(false)
+                }}
+            />
+        )
+
     return (
-        <div className={clsx(styles.wrapper, disabled && styles.disabled, className)}>
+        <div className={clsx(styles.wrapper, vertical && styles.vertical, disabled && styles.disabled, className)}>
             {(label || canReset) && (
                 <div className={styles.labelRow}>
                     {label && (
@@ -148,57 +341,120 @@ export function Slider({
 
             <div
                 ref={trackRef}
-                className={clsx(styles.bar, dragging && styles.barActive)}
-                role="slider"
-                aria-valuemin={min}
-                aria-valuemax={max}
-                aria-valuenow={v}
-                aria-label={label}
-                tabIndex={disabled ? -1 : 0}
-                onKeyDown={handleKeyDown}
-                onMouseDown={handleTrackDown}
+                className={clsx(styles.bar, dragging !== null && styles.barActive)}
+                role={isRange ? 'group' : 'slider'}
+                aria-valuemin={isRange ? undefined : min}
+                aria-valuemax={isRange ? undefined : max}
+                aria-valuenow={isRange ? undefined : values[0]}
+                aria-valuetext={isRange ? undefined : valueText(values[0])}
+                aria-label={label ?? ariaLabel}
+                aria-orientation={isRange ? undefined : orientation}
+                tabIndex={isRange || disabled ? -1 : 0}
+                onKeyDown={isRange ? undefined : handleKeyDown(0)}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
             >
                 {/* Fill */}
-                <div className={styles.fill} style={{ width: `${pct}%` }} />
+                <div
+                    className={clsx(styles.fill, isRange && styles.fillRange)}
+                    style={
+                        vertical
+                            ? isRange ? { bottom: `${pcts[0]}%`, height: `${pcts[1] - pcts[0]}%` } : { height: `${pcts[0]}%` }
+                            : isRange ? { left: `${pcts[0]}%`, width: `${pcts[1] - pcts[0]}%` } : { width: `${pcts[0]}%` }
+                    }
+                />
 
-                {/* Edge indicator */}
-                <div className={clsx(styles.edge, dragging && styles.edgeActive)} style={{ left: `${pct}%` }} />
+                {/* Mark ticks */}
+                {markList.map(m => {
+                    const pct = pctOf(m.value)
+                    const inFill = isRange ? pct >= pcts[0] && pct <= pcts[1] : pct <= pcts[0]
+                    return (
+                        <span
+                            key={m.value}
+                            className={clsx(styles.tick, inFill && styles.tickActive)}
+                            style={at(pct)}
+                        />
+                    )
+                })}
+
+                {/* Edge indicator; in range mode each edge is a focusable thumb */}
+                {isRange ? (
+                    values.map((n, i) => (
+                        <div
+                            key={i}
+                            ref={el => { thumbRefs.current[i] = el }}
+                            className={clsx(styles.thumb, dragging === i && styles.thumbActive)}
+                            style={at(pcts[i])}
+                            role="slider"
+                            aria-valuemin={i === 0 ? min : values[0]}
+                            aria-valuemax={i === 0 ? values[1] : max}
+                            aria-valuenow={n}
+                            aria-valuetext={valueText(n)}
+                            aria-orientation={orientation}
+                            aria-label={label ?? ariaLabel ? `${label ?? ariaLabel} (${i === 0 ? 'from' : 'to'})` : undefined}
+                            tabIndex={disabled ? -1 : 0}
+                            onKeyDown={handleKeyDown(i)}
+                        >
+                            <div className={clsx(styles.edge, dragging === i && styles.edgeActive)} />
+                        </div>
+                    ))
+                ) : (
+                    <div className={clsx(styles.edge, dragging !== null && styles.edgeActive)} style={at(pcts[0])} />
+                )}
 
                 {/* Inner content layer — above fill */}
                 <div className={styles.content}>
                     {/* Min label */}
-                    <span className={styles.minLabel}>{min}{unit}</span>
+                    {showBounds && <span className={styles.minLabel}>{formatValue ? formatValue(min) : <>{min}{unit}</>}</span>}
 
                     {/* Max label */}
-                    <span className={styles.maxLabel}>{max}{unit}</span>
+                    {showBounds && <span className={styles.maxLabel}>{formatValue ? formatValue(max) : <>{max}{unit}</>}</span>}
 
                     {/* Center value */}
                     {showValue && (
                         <div className={styles.valueCenter}>
-                            {!editing ? (
-                                <button type="button" className={styles.valueBtn} onMouseDown={e => e.stopPropagation()} onClick={startEdit}>
-                                    {v}<span className={styles.unit}>{unit}</span>
-                                </button>
+                            {isRange ? (
+                                <>
+                                    {renderValue(0)}
+                                    <span className={styles.rangeDash}>–</span>
+                                    {renderValue(1)}
+                                </>
                             ) : (
-                                <input
-                                    className={styles.valueInput}
-                                    autoFocus
-                                    value={draft}
-                                    onClick={e => e.stopPropagation()}
-                                    onMouseDown={e => e.stopPropagation()}
-                                    onChange={e => setDraft(e.target.value)}
-                                    onBlur={() => stopEdit(true)}
-                                    onKeyDown={e => {
-                                        e.stopPropagation()
-                                        if (e.key === 'Enter') stopEdit(true)
-                                        if (e.key === 'Escape') stopEdit(false)
-                                    }}
-                                />
+                                renderValue(0)
                             )}
                         </div>
                     )}
                 </div>
             </div>
+
+            {/* Mark labels under the bar — clicking one moves the nearest thumb there */}
+            {markList.some(m => m.label !== undefined) && (
+                <div className={styles.marks}>
+                    {markList.map(m => {
+                        if (m.label === undefined) return null
+                        const pct = pctOf(m.value)
+                        return (
+                            <button
+                                key={m.value}
+                                type="button"
+                                tabIndex={-1}
+                                className={clsx(styles.markLabel, values.includes(m.value) && styles.markLabelActive)}
+                                style={{
+                                    ...at(pct),
+                                    transform: vertical
+                                        ? `translateY(${pct <= 0 ? 0 : pct >= 100 ? 100 : 50}%)`
+                                        : `translateX(${pct <= 0 ? 0 : pct >= 100 ? -100 : -50}%)`,
+                                }}
+                                onClick={() => !disabled && commitOnce(nearestThumb(m.value), m.value)}
+                            >
+                                {m.label}
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
         </div>
     )
 }
@@ -1,9 +1,13 @@
-import { useState, useRef, useEffect, useCallback, useLayoutEffect } from 'react'
+import { useState, useRef, useEffect, useCallback, useLayoutEffect, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import clsx from 'clsx'
 import { Tooltip } from '../Tooltip'
+import { evaluateTemplate, type TemplateValues } from './template'
 import styles from './textinput.module.scss'
 
+export type { TemplateValues, EvaluateTemplateOptions } from './template'
+export { evaluateTemplate } from './template'
+
 /* ── Types ── */
 
 export interface TextInputCommand {
@@ -30,10 +34,16 @@ export interface TextInputProps {
     onBlur?: (e: React.FocusEvent<HTMLDivElement>) => void
     /** Show command insertion button */
     showCommandsButton?: boolean
-    /** Available commands */
+    /** Available commands; their keys in the text are shown as chips with the label */
     commands?: TextInputCommand[]
     /** Custom commands button content (default: keyboard icon) */
     commandsButtonContent?: React.ReactNode
+    /** Suggest commands at the caret when "{" is typed (default: true) */
+    commandSuggestions?: boolean
+    /** Sample values by key name (`{ track: 'Song' }`); when set, the rendered text is shown under the field */
+    previewValues?: TemplateValues
+    /** Custom preview label text */
+    previewText?: string
     /** Hint text below the field */
     hint?: string
     /** Error message (replaces hint) */
@@ -54,45 +64,129 @@ export interface TextInputProps {
 
 /* ── Helpers ── */
 
-function getTextNodes(root: Node): Text[] {
-    const out: Text[] = []
-    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
-        acceptNode: node =>
-            node.textContent && node.textContent.length >= 0
-                ? NodeFilter.FILTER_ACCEPT
-                : NodeFilter.FILTER_REJECT,
+/** Inline "{…" suggestion state: where the brace is, what follows it and the highlighted item */
+interface SuggestState {
+    start: number
+    end: number
+    query: string
+    index: number
+    top: number
+    left: number
+}
+
+/* "{" followed by a partial key right before the caret */
+const SUGGEST_TRIGGER = /\{([^{}\s]*)$/
+
+function filterCommands(commands: TextInputCommand[], query: string): TextInputCommand[] {
+    const q = query.toLowerCase()
+    const matches = commands.filter(c => c.key.toLowerCase().includes(q) || c.label.toLowerCase().includes(q))
+    /* keys that start with the typed text come first */
+    const starts = (c: TextInputCommand) => c.key.toLowerCase().replace(/^\{/, '').startsWith(q)
+    return [...matches.filter(starts), ...matches.filter(c => !starts(c))]
+}
+
+function caretRect(): DOMRect | null {
+    const sel = window.getSelection()
+    if (!sel || sel.rangeCount === 0) return null
+    const range = sel.getRangeAt(0)
+    /* a collapsed range at a node boundary may report an empty rect */
+    const rect = range.getClientRects()[0] ?? range.getBoundingClientRect()
+    return rect.height ? rect : null
+}
+
+/* ── Chips: known command keys are rendered as non-editable labels ── */
+
+const CHIP_ATTR = 'data-command'
+/* caret stop next to a chip — browsers cannot place the caret beside a non-editable node otherwise */
+const CARET_STOP = '\u200B'
+
+function isChip(node: Node | null): node is HTMLElement {
+    return node instanceof HTMLElement && node.hasAttribute(CHIP_ATTR)
+}
+
+/** Plain-text value of editor content: text as typed, chips as their keys */
+function serialize(root: Node): string {
+    let out = ''
+    root.childNodes.forEach(node => {
+        if (node.nodeType === Node.TEXT_NODE) out += (node.textContent ?? '').replace(/\u200B/g, '')
+        else if (isChip(node)) out += node.getAttribute(CHIP_ATTR)
+        else out += serialize(node)
     })
-    let n = walker.nextNode()
-    while (n) { out.push(n as Text); n = walker.nextNode() }
     return out
 }
 
-function restoreSelectionByOffsets(root: HTMLElement, start: number, end: number) {
-    const textNodes = getTextNodes(root)
-    const totalLen = textNodes.reduce((acc, t) => acc + (t.textContent?.length ?? 0), 0)
-
-    const s = Math.max(0, Math.min(start, totalLen))
-    const e = Math.max(0, Math.min(end, totalLen))
-
-    let startNode: Text | HTMLElement = root, startOff = 0
-    let endNode: Text | HTMLElement = root, endOff = 0
-    let acc = 0
-
-    for (const tn of textNodes) {
-        const len = tn.textContent?.length ?? 0
-        const next = acc + len
-        if (s >= acc && s <= next) { startNode = tn; startOff = s - acc }
-        if (e >= acc && e <= next) { endNode = tn; endOff = e - acc }
-        acc = next
+/** Splits a value into plain text and known keys, keeping the keys as separate parts */
+function splitByKeys(value: string, labels: Map<string, string>): string[] {
+    if (!labels.size) return [value]
+    const keys = [...labels.keys()].sort((a, b) => b.length - a.length)
+    const pattern = new RegExp(`(${keys.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`)
+    return value.split(pattern).filter(Boolean)
+}
+
+function renderValue(root: HTMLElement, value: string, labels: Map<string, string>) {
+    if (!value) {
+        root.innerHTML = '<br>'
+        return
+    }
+    root.textContent = ''
+    for (const part of splitByKeys(value, labels)) {
+        const label = labels.get(part)
+        if (label === undefined) {
+            root.append(part)
+            continue
+        }
+        if (isChip(root.lastChild) || !root.lastChild) root.append(CARET_STOP)
+        const chip = document.createElement('span')
+        chip.contentEditable = 'false'
+        chip.setAttribute(CHIP_ATTR, part)
+        chip.className = styles.chip
+        chip.title = part
+        chip.textContent = label
+        root.append(chip)
     }
+    if (isChip(root.lastChild)) root.append(CARET_STOP)
+}
 
-    const range = document.createRange()
-    try {
-        if (textNodes.length === 0) {
-            range.selectNodeContents(root); range.collapse(false)
+/* index in `text` after `n` characters that are not caret stops */
+function rawIndex(text: string, n: number) {
+    let i = 0
+    for (let seen = 0; i < text.length && seen < n; i++) if (text[i] !== CARET_STOP) seen++
+    return i
+}
+
+/** DOM position of a value offset; an offset inside a chip snaps behind it */
+function pointAt(root: Node, offset: number): { node: Node; offset: number } {
+    let left = offset
+    const children = Array.from(root.childNodes)
+    for (let i = 0; i < children.length; i++) {
+        const node = children[i]
+        if (node.nodeType === Node.TEXT_NODE) {
+            const text = node.textContent ?? ''
+            const len = text.replace(/\u200B/g, '').length
+            if (left <= len) return { node, offset: rawIndex(text, left) }
+            left -= len
+        } else if (isChip(node)) {
+            if (left === 0) return { node: root, offset: i }
+            const len = node.getAttribute(CHIP_ATTR)!.length
+            if (left < len) return { node: root, offset: i + 1 }
+            left -= len
         } else {
-            range.setStart(startNode, startOff); range.setEnd(endNode, endOff)
+            const len = serialize(node).length
+            if (node.childNodes.length && left <= len) return pointAt(node, left)
+            left -= len
         }
+    }
+    return { node: root, offset: children.length }
+}
+
+function restoreSelectionByOffsets(root: HTMLElement, start: number, end: number) {
+    const total = serialize(root).length
+    const s = pointAt(root, Math.max(0, Math.min(start, total)))
+    const e = pointAt(root, Math.max(0, Math.min(end, total)))
+
+    const range = document.createRange()
+    try {
+        range.setStart(s.node, s.offset); range.setEnd(e.node, e.offset)
         const sel = window.getSelection()
         sel?.removeAllRanges(); sel?.addRange(range)
     } catch {
@@ -128,6 +222,9 @@ export function TextInput({
     showCommandsButton = false,
     commands = [],
     commandsButtonContent,
+    commandSuggestions = true,
+    previewValues,
+    previewText = 'Preview',
     hint,
     error,
     touched,
@@ -149,6 +246,12 @@ export function TextInput({
     const selectionRef = useRef<{ start: number; end: number } | null>(null)
     const [mounted, setMounted] = useState(false)
     const [cmdPanelStyle, setCmdPanelStyle] = useState<React.CSSProperties>({})
+    const [suggest, setSuggest] = useState<SuggestState | null>(null)
+    const suggestPanelRef = useRef<HTMLDivElement>(null)
+
+    /* stable across renders even when `commands` is recreated inline */
+    const commandsSig = commands.map(c => `${c.key}\u0000${c.label}`).join('\u0001')
+    const chipLabels = useMemo(() => new Map(commands.map(c => [c.key, c.label])), [commandsSig])
 
     useEffect(() => setMounted(true), [])
 
@@ -185,8 +288,8 @@ export function TextInput({
         const pre = range.cloneRange()
         pre.selectNodeContents(root)
         pre.setEnd(range.startContainer, range.startOffset)
-        const start = pre.toString().length
-        selectionRef.current = { start, end: start + range.toString().length }
+        const start = serialize(pre.cloneContents()).length
+        selectionRef.current = { start, end: start + serialize(range.cloneContents()).length }
     }, [])
 
     const setCursorToEnd = useCallback(() => {
@@ -200,15 +303,65 @@ export function TextInput({
         sel?.addRange(range)
     }, [])
 
+    /* ── Inline suggestions ── */
+
+    const suggestOpen = suggest !== null
+    const suggestions = suggest ? filterCommands(commands, suggest.query) : []
+
+    /** Opens, updates or closes the "{" popup from the text before the caret */
+    const updateSuggest = useCallback((text: string) => {
+        const caret = selectionRef.current
+        if (!commandSuggestions || !commands.length || !caret || caret.start !== caret.end) {
+            setSuggest(null)
+            return
+        }
+        const match = SUGGEST_TRIGGER.exec(text.slice(0, caret.start))
+        const rect = match && caretRect()
+        if (!match || !rect) {
+            setSuggest(null)
+            return
+        }
+        const start = caret.start - match[0].length
+        const query = match[1]
+        setSuggest(prev => ({
+            start,
+            end: caret.start,
+            query,
+            index: prev && prev.start === start && prev.query === query ? prev.index : 0,
+            top: rect.bottom + 4,
+            left: rect.left,
+        }))
+    }, [commandSuggestions, commands.length])
+
+    /* Keep the highlighted suggestion visible while navigating */
+    useEffect(() => {
+        if (!suggest) return
+        suggestPanelRef.current?.children[suggest.index]?.scrollIntoView({ block: 'nearest' })
+    }, [suggest])
+
+    /* The popup is anchored to the caret, so it closes instead of following a scroll */
+    useEffect(() => {
+        if (!suggest) return
+        const close = (e: Event) => {
+            if (suggestPanelRef.current?.contains(e.target as Node)) return
+            setSuggest(null)
+        }
+        window.addEventListener('scroll', close, true)
+        window.addEventListener('resize', close)
+        return () => {
+            window.removeEventListener('scroll', close, true)
+            window.removeEventListener('resize', close)
+        }
+    }, [suggestOpen])
+
     /* ── Sync external value → DOM ── */
 
     useLayoutEffect(() => {
         const el = editorRef.current
         if (!el) return
-        const domText = (el.textContent || '').replace(/\u200B/g, '')
-        if (domText !== value) {
-            if (value) el.textContent = value
-            else el.innerHTML = '<br>'
+        const chipCount = splitByKeys(value, chipLabels).filter(part => chipLabels.has(part)).length
+        if (serialize(el) !== value || el.querySelectorAll(`[${CHIP_ATTR}]`).length !== chipCount) {
+            renderValue(el, value, chipLabels)
         }
         lastValueRef.current = value
         /* Keep placeholder in sync with value prop */
@@ -221,14 +374,14 @@ export function TextInput({
                 setCursorToEnd()
             }
         }
-    }, [value, setCursorToEnd, syncPlaceholder])
+    }, [value, chipLabels, setCursorToEnd, syncPlaceholder])
 
     /* ── Input handling ── */
 
     const handleInput = () => {
         const root = editorRef.current
         if (!root) return
-        const newValue = root.textContent?.replace(/\u200B/g, '') || ''
+        const newValue = serialize(root)
 
         /* Immediately hide/show placeholder — no waiting for React */
         syncPlaceholder(newValue)
@@ -238,10 +391,20 @@ export function TextInput({
             root.innerHTML = '<br>'
         }
 
+        /* Typed, pasted or inserted keys turn into chips */
+        const chipCount = splitByKeys(newValue, chipLabels).filter(part => chipLabels.has(part)).length
+        if (root.querySelectorAll(`[${CHIP_ATTR}]`).length !== chipCount) {
+            saveSelection()
+            renderValue(root, newValue, chipLabels)
+            const sel = selectionRef.current
+            if (sel && document.activeElement === root) restoreSelectionByOffsets(root, sel.start, sel.end)
+        }
+
         if (newValue !== lastValueRef.current) {
             saveSelection()
             lastValueRef.current = newValue
             onChange?.(newValue)
+            updateSuggest(newValue)
         }
     }
 
@@ -258,7 +421,7 @@ export function TextInput({
         if (!el) return
 
         /* If editor is "empty" (only <br>), clear it before insertion */
-        const currentText = (el.textContent || '').replace(/\u200B/g, '')
+        const currentText = serialize(el)
         if (!currentText) {
             el.textContent = ''
         }
@@ -284,6 +447,83 @@ export function TextInput({
         handleInput()
         saveSelection()
         closeCmdPanel()
+        setSuggest(null)
+    }
+
+    /* Replaces the typed "{…" with the chosen key */
+    const applySuggestion = (cmd: TextInputCommand) => {
+        const el = editorRef.current
+        if (!el || !suggest) return
+        restoreSelectionByOffsets(el, suggest.start, suggest.end)
+        insertCommand(cmd.key)
+    }
+
+    /* Removes the chip right before (Backspace) or after (Delete) the caret as a whole */
+    const removeChip = (direction: -1 | 1) => {
+        const el = editorRef.current
+        const sel = window.getSelection()
+        if (!el || !sel || sel.rangeCount === 0 || !sel.isCollapsed || !chipLabels.size) return false
+        saveSelection()
+        const caret = selectionRef.current?.start ?? 0
+        const text = serialize(el)
+        let pos = 0
+        for (const part of splitByKeys(text, chipLabels)) {
+            const end = pos + part.length
+            if (chipLabels.has(part) && (direction < 0 ? end === caret : pos === caret)) {
+                renderValue(el, text.slice(0, pos) + text.slice(end), chipLabels)
+                restoreSelectionByOffsets(el, pos, pos)
+                handleInput()
+                return true
+            }
+            pos = end
+        }
+        return false
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if ((e.key === 'Backspace' || e.key === 'Delete') && removeChip(e.key === 'Backspace' ? -1 : 1)) {
+            e.preventDefault()
+            return
+        }
+        if (!suggest || !suggestions.length) return
+        const count = suggestions.length
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault()
+                setSuggest({ ...suggest, index: (suggest.index + 1) % count })
+                break
+            case 'ArrowUp':
+                e.preventDefault()
+                setSuggest({ ...suggest, index: (suggest.index - 1 + count) % count })
+                break
+            case 'Enter':
+            case 'Tab':
+                e.preventDefault()
+                applySuggestion(suggestions[Math.min(suggest.index, count - 1)])
+                break
+            case 'Escape':
+                e.preventDefault()
+                setSuggest(null)
+                break
+        }
+    }
+
+    /* Copied text keeps the keys rather than the chip labels */
+    const handleCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+        const sel = window.getSelection()
+        if (!sel || sel.rangeCount === 0 || sel.isCollapsed) return
+        e.preventDefault()
+        e.clipboardData.setData('text/plain', serialize(sel.getRangeAt(0).cloneContents()))
+        if (e.type === 'cut') {
+            sel.getRangeAt(0).deleteContents()
+            handleInput()
+        }
+    }
+
+    /* Moving the caret (arrows, clicks) out of the "{…" closes the popup */
+    const handleCaretMove = () => {
+        saveSelection()
+        if (suggest) updateSuggest(lastValueRef.current)
     }
 
     const updateCmdPanelPosition = useCallback(() => {
@@ -369,11 +609,17 @@ export function TextInput({
                         aria-multiline="true"
                         aria-invalid={Boolean(showError)}
                         aria-errormessage={showError ? `${name}-error` : undefined}
+                        aria-autocomplete={commandSuggestions && commands.length ? 'list' : undefined}
+                        aria-controls={suggest && suggestions.length ? `${name}-suggestions` : undefined}
+                        aria-activedescendant={suggest && suggestions.length ? `${name}-suggestion-${suggest.index}` : undefined}
                         onInput={handleInput}
+                        onKeyDown={handleKeyDown}
+                        onCopy={handleCopy}
+                        onCut={handleCopy}
                         onFocus={() => { setIsFocused(true); saveSelection() }}
-                        onKeyUp={saveSelection}
-                        onMouseUp={saveSelection}
-                        onBlur={e => { setIsFocused(false); onBlur?.(e) }}
+                        onKeyUp={handleCaretMove}
+                        onMouseUp={handleCaretMove}
+                        onBlur={e => { setIsFocused(false); setSuggest(null); onBlur?.(e) }}
                     />
                 </div>
 
@@ -413,8 +659,43 @@ export function TextInput({
                     </div>,
                     document.body,
                 )}
+
+                {mounted && suggest && suggestions.length > 0 && createPortal(
+                    <div
+                        ref={suggestPanelRef}
+                        id={`${name}-suggestions`}
+                        role="listbox"
+                        className={clsx(styles.cmdPanel, styles.suggestPanel)}
+                        style={{ position: 'fixed', top: suggest.top, left: suggest.left, zIndex: 10050 }}
+                        /* keep focus (and the caret) in the editor */
+                        onMouseDown={e => e.preventDefault()}
+                    >
+                        {suggestions.map((cmd, i) => (
+                            <div
+                                key={cmd.key}
+                                id={`${name}-suggestion-${i}`}
+                                role="option"
+                                aria-selected={i === suggest.index}
+                                className={clsx(styles.cmdItem, i === suggest.index && styles.cmdItemActive)}
+                                onMouseEnter={() => setSuggest({ ...suggest, index: i })}
+                                onClick={() => applySuggestion(cmd)}
+                            >
+                                <span className={styles.cmdKey}>{cmd.key}</span>
+                                <span className={styles.cmdSep}>—</span>
+                                <span className={styles.cmdLabel}>{cmd.label}</span>
+                            </div>
+                        ))}
+                    </div>,
+                    document.body,
+                )}
             </div>
 
+            {previewValues && (
+                <div className={styles.preview} aria-live="polite">
+                    <span className={styles.previewLabel}>{previewText}</span>
+                    <span className={styles.previewValue}>{evaluateTemplate(value, previewValues) || '—'}</span>
+                </div>
+            )}
             {showError && (
                 <div id={`${name}-error`} className={styles.error}>{error}</div>
             )}
@@ -0,0 +1,80 @@
+/** Values for template keys, by name without braces: `{ track: 'Song' }` fills `{track}` */
+export type TemplateValues = Record<string, string | number | null | undefined>
+
+export interface EvaluateTemplateOptions {
+    /** Text for a key that has no value and no inline fallback (empty by default) */
+    missing?: (name: string) => string
+}
+
+interface Run {
+    text: string
+    /** Keys met in the run, nested sections included */
+    keys: number
+    /** Every key of the run itself had a value or a fallback */
+    complete: boolean
+    closed: boolean
+}
+
+const isSet = (value: TemplateValues[string]) => value !== undefined && value !== null && value !== ''
+
+/**
+ * Renders a template such as `{track} — {artist}[ - {album}]`:
+ * - `{key}` is replaced with its value;
+ * - `{key|text}` falls back to `text` when the key has no value;
+ * - `[…]` is shown only when every key inside it has a value or a fallback
+ *   (brackets without keys stay as they are);
+ * - `\` escapes the next character, e.g. `\[` or `\{`.
+ */
+export function evaluateTemplate(template: string, values: TemplateValues, options: EvaluateTemplateOptions = {}): string {
+    const { missing = () => '' } = options
+    let i = 0
+
+    const run = (close?: string): Run => {
+        let text = ''
+        let keys = 0
+        let complete = true
+        while (i < template.length) {
+            const ch = template[i]
+            if (ch === '\\' && i + 1 < template.length) {
+                text += template[i + 1]
+                i += 2
+            } else if (ch === close) {
+                i++
+                return { text, keys, complete, closed: true }
+            } else if (ch === '{') {
+                const end = template.indexOf('}', i)
+                const body = end < 0 ? '' : template.slice(i + 1, end)
+                const bar = body.indexOf('|')
+                const name = (bar < 0 ? body : body.slice(0, bar)).trim()
+                /* "{" without a closing brace or a name is plain text */
+                if (!name) {
+                    text += ch
+                    i++
+                    continue
+                }
+                i = end + 1
+                keys++
+                const value = values[name]
+                if (isSet(value)) text += String(value)
+                else if (bar >= 0) text += body.slice(bar + 1)
+                else {
+                    complete = false
+                    text += missing(name)
+                }
+            } else if (ch === '[') {
+                i++
+                const inner = run(']')
+                keys += inner.keys
+                if (!inner.closed) text += `[${inner.text}`
+                else if (!inner.keys) text += `[${inner.text}]`
+                else if (inner.complete) text += inner.text
+            } else {
+                text += ch
+                i++
+            }
+        }
+        return { text, keys, complete, closed: false }
+    }
+
+    return run().text
+}
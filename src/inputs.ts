@@ -1,8 +1,25 @@
-export { ColorPicker } from './components/ColorPicker'
-export type { ColorPickerProps } from './components/ColorPicker'
-
-export { FilePicker } from './components/FilePicker'
-export type { FilePickerProps } from './components/FilePicker'
+export { ColorPicker, localRecentColors, memoryRecentColors } from './components/ColorPicker'
+export type { ColorPickerProps, ColorFormat, RecentColorsStorage, EyedropperSource } from './components/ColorPicker'
+
+export { Equalizer } from './components/Equalizer'
+export type { EqualizerProps, EqualizerBand, EqualizerPreset } from './components/Equalizer'
+
+export { GradientPicker, parseGradient, formatGradient } from './components/GradientPicker'
+export type { GradientPickerProps, Gradient, GradientStop, GradientType } from './components/GradientPicker'
+
+export { FilePicker, createXhrUploader } from './components/FilePicker'
+export type {
+    FilePickerProps,
+    FilePickerSingleProps,
+    FilePickerMultipleProps,
+    FileRules,
+    FileRejection,
+    FileRejectCode,
+    FileUploader,
+    UploadState,
+    UploadStatus,
+    CropOptions,
+} from './components/FilePicker'
 
 export { FilterButton } from './components/FilterButton'
 export type { FilterButtonProps } from './components/FilterButton'
@@ -17,13 +34,13 @@ export { SearchBox } from './components/SearchBox'
 export type { SearchBoxProps } from './components/SearchBox'
 
 export { Select } from './components/Select'
-export type { SelectProps, SelectOption } from './components/Select'
+export type { SelectProps, SelectSingleProps, SelectMultipleProps, SelectOption, LoadOptions, LoadOptionsResult } from './components/Select'
 
 export { Slider } from './components/Slider'
-export type { SliderProps } from './components/Slider'
+export type { SliderProps, SliderSingleProps, SliderRangeProps, SliderMark, SliderScale } from './components/Slider'
 
-export { TextInput } from './components/TextInput'
-export type { TextInputProps, TextInputCommand } from './components/TextInput'
+export { TextInput, evaluateTemplate } from './components/TextInput'
+export type { TextInputProps, TextInputCommand, TemplateValues, EvaluateTemplateOptions } from './components/TextInput'
 
 export { Toggle } from './components/Toggle'
 export type { ToggleProps } from './components/Toggle'